@@ -7,19 +7,54 @@
 
 import express, { Request, Response, NextFunction } from 'express'
 import cors from 'cors'
-import fs from 'fs/promises'
 import path from 'path'
-import { fileURLToPath } from 'url'
 import { DyeArraySchema, LocaleDataSchema } from './schemas.js'
+import type { Dye } from './schemas.js'
 import { validateBody } from './middleware/validation.js'
 import { requireAuth, sessionManager } from './middleware/auth.js'
-import { validateBasePaths, validateFilePath } from './utils/pathValidation.js'
+import { validateFilePath } from './utils/pathValidation.js'
 import { globalLimiter, writeLimiter, sessionLimiter } from './middleware/rateLimiting.js'
+import { withWriteLock } from './middleware/writeLock.js'
 import { requestTimeout } from './middleware/timeout.js'
 import { requestLogger } from './middleware/requestLogger.js'
 import { Logger } from './utils/logger.js'
+import { auditLog } from './utils/audit.js'
 import { globalErrorHandler, notFoundHandler } from './middleware/errorHandler.js'
 import { validateContentType } from './middleware/contentType.js'
+import {
+  colorsWrite,
+  getColorsPath,
+  getCorePath,
+  getLocalesPath,
+  isLocaleCode,
+  localeWrite,
+  readDataSet,
+  readJsonFile,
+  readVersionedJsonFile,
+} from './utils/dataFiles.js'
+import { colorMatchesHex } from './utils/dyeColors.js'
+import { checkIfMatch, contentEtag, fileEtag } from './utils/etag.js'
+import { serializeJson } from './utils/transaction.js'
+import { applyMutation, previewMutation } from './utils/mutation.js'
+import { isDryRun } from './utils/request.js'
+import { targetManager } from './utils/coreTargets.js'
+import { watchActiveTarget } from './utils/dataEvents.js'
+import { checkVocabulary, readVocabulary } from './utils/vocabulary.js'
+import { xivapi } from './utils/xivapi.js'
+import { dyesRouter } from './routes/dyes.js'
+import { backupsRouter } from './routes/backups.js'
+import { historyRouter } from './routes/history.js'
+import { integrityRouter } from './routes/integrity.js'
+import { exportRouter } from './routes/export.js'
+import { targetsRouter } from './routes/targets.js'
+import { gitRouter } from './routes/git.js'
+import { eventsRouter } from './routes/events.js'
+import { formatRouter } from './routes/format.js'
+import { auditRouter } from './routes/audit.js'
+import { vocabularyRouter } from './routes/vocabulary.js'
+import { namesRouter } from './routes/names.js'
+import { xivapiRouter } from './routes/xivapi.js'
+import { missingRouter } from './routes/missing.js'
 
 // ============================================================================
 // SECURITY: Production Environment Guard
@@ -32,9 +67,6 @@ if (process.env.NODE_ENV === 'production') {
   process.exit(1)
 }
 
-const __filename = fileURLToPath(import.meta.url)
-const __dirname = path.dirname(__filename)
-
 const app = express()
 
 // ============================================================================
@@ -50,6 +82,9 @@ app.use(requestTimeout)
 // Generates unique request ID for log correlation and audit trail
 app.use(requestLogger)
 
+// Persist audit, warning and error entries to logs/audit.log (see AUDIT_LOG_DIR)
+Logger.addSink(auditLog)
+
 // ============================================================================
 // SECURITY: Global Rate Limiting
 // ============================================================================
@@ -61,6 +96,8 @@ app.use(
   cors({
     origin: 'http://localhost:5174',
     credentials: false,
+    // Let the client read entity tags for If-Match on later writes
+    exposedHeaders: ['ETag'],
   })
 )
 
@@ -80,31 +117,15 @@ app.use(express.json({ limit: '10mb' }))
 // (Mutation operations require valid session token or API key)
 app.use('/api', requireAuth)
 
-// Path to xivdyetools-core (sibling directory)
-const CORE_PATH = path.resolve(__dirname, '../../xivdyetools-core')
-const COLORS_PATH = path.join(CORE_PATH, 'src/data/colors_xiv.json')
-const LOCALES_PATH = path.join(CORE_PATH, 'src/data/locales')
-
 // Server configuration
 const PORT = parseInt(process.env.PORT || '3001', 10)
 
-// Utility to read JSON file
-async function readJsonFile<T>(filePath: string): Promise<T> {
-  const data = await fs.readFile(filePath, 'utf-8')
-  return JSON.parse(data) as T
-}
-
-// Utility to write JSON file with consistent formatting
-async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
-  const formatted = JSON.stringify(data, null, 2)
-  await fs.writeFile(filePath, formatted + '\n', 'utf-8')
-}
-
 // Health check
-// SECURITY: Does not expose corePath to prevent information disclosure
-// Path validation happens at startup (see validateBasePaths below)
+// SECURITY: Reports the active target by name only; corePath is never exposed
+// Path validation happens at startup and on every target switch
 app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok' })
+  const { name, label } = targetManager.active()
+  res.json({ status: 'ok', target: { name, label } })
 })
 
 // POST /api/auth/session - Create new session token
@@ -114,10 +135,11 @@ app.post('/api/auth/session', sessionLimiter, (req, res) => {
   res.json({ success: true, token })
 })
 
-// GET /api/colors - Read colors_xiv.json
+// GET /api/colors - Read colors_xiv.json (ETag header = hash of the file)
 app.get('/api/colors', async (req, res) => {
   try {
-    const data = await readJsonFile(COLORS_PATH)
+    const { data, etag } = await readVersionedJsonFile(getColorsPath())
+    res.setHeader('ETag', etag)
     res.json(data)
   } catch (error) {
     Logger.error('Error reading colors file', {
@@ -132,11 +154,50 @@ app.get('/api/colors', async (req, res) => {
 })
 
 // POST /api/colors - Write colors_xiv.json
+// Requires If-Match with the ETag from GET /api/colors; 409 with a diff of
+// what overwriting would change if the file was modified since
 // SECURITY: Rate limit write operations (30 requests / 1 minute)
 // SECURITY: Input validation with Zod schema
-app.post('/api/colors', writeLimiter, validateBody(DyeArraySchema), async (req, res) => {
+app.post('/api/colors', writeLimiter, validateBody(DyeArraySchema), withWriteLock(async (req, res) => {
+  // rgb/hsv are derived data: refuse entries that disagree with their hex
+  const mismatched = (req.body as Dye[]).filter((dye) => !colorMatchesHex(dye))
+  if (mismatched.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: `rgb/hsv do not match hex for ${mismatched.length} dye(s)`,
+      itemIds: mismatched.map((dye) => dye.itemID),
+    })
+  }
+
   try {
-    await writeJsonFile(COLORS_PATH, req.body)
+    // Categories, acquisitions and currencies must be in the vocabulary
+    const vocabulary = readVocabulary(await readDataSet())
+    const unknown = (req.body as Dye[]).filter((dye) => checkVocabulary(dye, vocabulary).length > 0)
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${unknown.length} dye(s) use a category, acquisition or currency that is not in the vocabulary`,
+        itemIds: unknown.map((dye) => dye.itemID),
+      })
+    }
+
+    const writes = [colorsWrite(req.body)]
+    const current = await fileEtag(getColorsPath())
+    const proceed = await checkIfMatch(req, res, 'colors_xiv.json', current, async () => ({
+      files: await previewMutation(writes),
+    }))
+    if (!proceed) return
+
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: 'Edit colors_xiv.json',
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+    })
+    res.setHeader('ETag', contentEtag(serializeJson(writes[0].data)))
     res.json({ success: true })
   } catch (error) {
     Logger.error('Error writing colors file', {
@@ -148,26 +209,25 @@ app.post('/api/colors', writeLimiter, validateBody(DyeArraySchema), async (req,
     })
     res.status(500).json({ success: false, error: 'Failed to write colors file' })
   }
-})
+}))
 
-// GET /api/locale/:code - Read locale JSON file
+// GET /api/locale/:code - Read locale JSON file (ETag header = hash of the file)
 app.get('/api/locale/:code', async (req, res) => {
   const { code } = req.params
-  const validCodes = ['en', 'ja', 'de', 'fr', 'ko', 'zh']
-
-  if (!validCodes.includes(code)) {
+  if (!isLocaleCode(code)) {
     return res.status(400).json({ success: false, error: 'Invalid locale code' })
   }
 
   try {
-    const filePath = path.join(LOCALES_PATH, `${code}.json`)
+    const filePath = path.join(getLocalesPath(), `${code}.json`)
 
-    // SECURITY: Validate path doesn't escape LOCALES_PATH
-    if (!validateFilePath(filePath, LOCALES_PATH)) {
+    // SECURITY: Validate path doesn't escape the locales directory
+    if (!validateFilePath(filePath, getLocalesPath())) {
       return res.status(400).json({ success: false, error: 'Invalid file path' })
     }
 
-    const data = await readJsonFile(filePath)
+    const { data, etag } = await readVersionedJsonFile(filePath)
+    res.setHeader('ETag', etag)
     res.json(data)
   } catch (error) {
     Logger.error('Error reading locale file', {
@@ -183,25 +243,40 @@ app.get('/api/locale/:code', async (req, res) => {
 })
 
 // POST /api/locale/:code - Write locale JSON file
+// Requires If-Match with the ETag from GET /api/locale/:code (409 on conflict)
 // SECURITY: Rate limit write operations (30 requests / 1 minute)
 // SECURITY: Input validation with Zod schema
-app.post('/api/locale/:code', writeLimiter, validateBody(LocaleDataSchema), async (req, res) => {
+app.post('/api/locale/:code', writeLimiter, validateBody(LocaleDataSchema), withWriteLock(async (req, res) => {
   const { code } = req.params
-  const validCodes = ['en', 'ja', 'de', 'fr', 'ko', 'zh']
-
-  if (!validCodes.includes(code)) {
+  if (!isLocaleCode(code)) {
     return res.status(400).json({ success: false, error: 'Invalid locale code' })
   }
 
   try {
-    const filePath = path.join(LOCALES_PATH, `${code}.json`)
+    const filePath = path.join(getLocalesPath(), `${code}.json`)
 
-    // SECURITY: Validate path doesn't escape LOCALES_PATH
-    if (!validateFilePath(filePath, LOCALES_PATH)) {
+    // SECURITY: Validate path doesn't escape the locales directory
+    if (!validateFilePath(filePath, getLocalesPath())) {
       return res.status(400).json({ success: false, error: 'Invalid file path' })
     }
 
-    await writeJsonFile(filePath, req.body)
+    const writes = [localeWrite(code, req.body)]
+    const current = await fileEtag(filePath)
+    const proceed = await checkIfMatch(req, res, `${code}.json`, current, async () => ({
+      files: await previewMutation(writes),
+    }))
+    if (!proceed) return
+
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: `Edit locale ${code}`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+    })
+    res.setHeader('ETag', contentEtag(serializeJson(writes[0].data)))
     res.json({ success: true })
   } catch (error) {
     Logger.error('Error writing locale file', {
@@ -214,7 +289,7 @@ app.post('/api/locale/:code', writeLimiter, validateBody(LocaleDataSchema), asyn
     })
     res.status(500).json({ success: false, error: `Failed to write locale file: ${code}` })
   }
-})
+}))
 
 // GET /api/validate/:itemId - Check if itemID already exists
 app.get('/api/validate/:itemId', async (req, res) => {
@@ -224,7 +299,7 @@ app.get('/api/validate/:itemId', async (req, res) => {
       return res.status(400).json({ success: false, error: 'Invalid item ID' })
     }
 
-    const dyes = await readJsonFile<Array<{ itemID: number | null }>>(COLORS_PATH)
+    const dyes = await readJsonFile<Array<{ itemID: number | null }>>(getColorsPath())
     const exists = dyes.some((dye) => dye.itemID === itemId)
     res.json({ exists })
   } catch (error) {
@@ -240,6 +315,48 @@ app.get('/api/validate/:itemId', async (req, res) => {
   }
 })
 
+// /api/targets - List core targets and switch the active one
+app.use('/api/targets', targetsRouter)
+
+// /api/dyes - Per-dye operations (add, read, update, delete, deprecate)
+app.use('/api/dyes', dyesRouter)
+
+// /api/backups - Automatic snapshots of the data files, with restore
+app.use('/api/backups', backupsRouter)
+
+// /api/history - Undo/redo of maintainer operations
+app.use('/api/history', historyRouter)
+
+// /api/integrity - Cross-file consistency report and safe fixes
+app.use('/api/integrity', integrityRouter)
+
+// /api/export - Spreadsheet and palette downloads
+app.use('/api/export', exportRouter)
+
+// /api/git - Local git status, diff and commit of the data files (no push)
+app.use('/api/git', gitRouter)
+
+// /api/events - Server-sent events when the data files change on disk
+app.use('/api/events', eventsRouter)
+
+// /api/format - Rewrite the data files in canonical form
+app.use('/api/format', formatRouter)
+
+// /api/audit - Persisted audit log with filters
+app.use('/api/audit', auditRouter)
+
+// /api/vocabulary - Categories, acquisitions and currencies dyes may use
+app.use('/api/vocabulary', vocabularyRouter)
+
+// /api/names - Korean and Chinese item names from local dumps
+app.use('/api/names', namesRouter)
+
+// /api/xivapi - XIVAPI item names through the server's on-disk cache
+app.use('/api/xivapi', xivapiRouter)
+
+// /api/missing - Dye items in the game not yet in colors_xiv.json
+app.use('/api/missing', missingRouter)
+
 // GET /api/locales/labels - Get all locale labels (for prefix stripping)
 app.get('/api/locales/labels', async (req, res) => {
   try {
@@ -247,7 +364,7 @@ app.get('/api/locales/labels', async (req, res) => {
     const codes = ['en', 'ja', 'de', 'fr', 'ko', 'zh']
 
     for (const code of codes) {
-      const filePath = path.join(LOCALES_PATH, `${code}.json`)
+      const filePath = path.join(getLocalesPath(), `${code}.json`)
       const data = await readJsonFile<{ labels: { dye: string } }>(filePath)
       labels[code] = data.labels.dye
     }
@@ -278,8 +395,10 @@ app.use(globalErrorHandler)
 // ============================================================================
 // SECURITY: Startup Path Validation & Server Launch
 // ============================================================================
-// Validate paths before starting server
-validateBasePaths(CORE_PATH, COLORS_PATH, LOCALES_PATH)
+// Validate the initial core target's paths before starting server
+targetManager
+  .validate(targetManager.active().name)
+  .then(watchActiveTarget)
   .then(() => {
     // SECURITY: Bind to 127.0.0.1 only (localhost, not accessible from network)
     app.listen(PORT, '127.0.0.1', () => {
@@ -289,7 +408,9 @@ validateBasePaths(CORE_PATH, COLORS_PATH, LOCALES_PATH)
 ╠══════════════════════════════════════════════════════╣
 ║  Server running at: http://127.0.0.1:${PORT}            ║
 ║  Bound to: 127.0.0.1 (localhost only)                ║
-║  Core path: ${CORE_PATH.slice(-40).padStart(40)}  ║
+║  Core target: ${targetManager.active().name.slice(-38).padEnd(38)} ║
+║  Core path: ${getCorePath().slice(-40).padStart(40)}  ║
+║  XIVAPI: ${(xivapi.offline ? 'offline (cached names only)' : 'online').padEnd(43)} ║
 ╚══════════════════════════════════════════════════════╝
       `)
     })
@@ -0,0 +1,96 @@
+import fs from 'fs'
+import path from 'path'
+import type { LogEntry, LogLevel, LogSink } from '../utils/logger.js'
+
+export interface RotatingFileSinkOptions {
+  /** Directory for the log file and its rotated generations */
+  directory: string
+  /** File name without extension (e.g. "audit" for audit.log, audit.1.log, ...) */
+  baseName: string
+  /** Size at which the current file is rotated */
+  maxBytes: number
+  /** Number of rotated files kept besides the current one */
+  maxFiles: number
+  /** Levels written to the file; entries of other levels are skipped */
+  levels: LogLevel[]
+}
+
+/**
+ * RotatingFileSink
+ *
+ * Appends log entries as JSON lines to `<baseName>.log`. When the file would
+ * grow past `maxBytes` it is renamed to `<baseName>.1.log` (shifting older
+ * generations up and dropping the oldest) and a new file is started.
+ *
+ * Writes are synchronous so entries land in the order they were logged and
+ * are on disk even if the process is killed right after.
+ */
+export class RotatingFileSink implements LogSink {
+  // Size of the current file (read from disk on the first write)
+  private size: number | null = null
+
+  constructor(private readonly options: RotatingFileSinkOptions) {}
+
+  private filePath(generation: number): string {
+    const { directory, baseName } = this.options
+    return path.join(directory, generation === 0 ? `${baseName}.log` : `${baseName}.${generation}.log`)
+  }
+
+  write(entry: LogEntry): void {
+    if (!this.options.levels.includes(entry.level)) {
+      return
+    }
+
+    const line = JSON.stringify(entry) + '\n'
+    const bytes = Buffer.byteLength(line)
+
+    if (this.size === null) {
+      fs.mkdirSync(this.options.directory, { recursive: true })
+      this.size = fs.existsSync(this.filePath(0)) ? fs.statSync(this.filePath(0)).size : 0
+    }
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      this.rotate()
+    }
+
+    fs.appendFileSync(this.filePath(0), line, 'utf-8')
+    this.size += bytes
+  }
+
+  /**
+   * Read every entry still on disk, oldest first
+   * (lines that are not valid JSON, e.g. a torn last write, are skipped)
+   */
+  async read(): Promise<LogEntry[]> {
+    const entries: LogEntry[] = []
+
+    for (let generation = this.options.maxFiles; generation >= 0; generation--) {
+      let contents: string
+      try {
+        contents = await fs.promises.readFile(this.filePath(generation), 'utf-8')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue
+        throw error
+      }
+
+      for (const line of contents.split('\n')) {
+        if (!line) continue
+        try {
+          entries.push(JSON.parse(line) as LogEntry)
+        } catch {
+          // Skip the malformed line
+        }
+      }
+    }
+    return entries
+  }
+
+  private rotate(): void {
+    fs.rmSync(this.filePath(this.options.maxFiles), { force: true })
+    for (let generation = this.options.maxFiles - 1; generation >= 0; generation--) {
+      if (fs.existsSync(this.filePath(generation))) {
+        fs.renameSync(this.filePath(generation), this.filePath(generation + 1))
+      }
+    }
+    this.size = 0
+  }
+}
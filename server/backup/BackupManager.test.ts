@@ -0,0 +1,39 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { BackupManager } from './BackupManager.js'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('BackupManager', () => {
+  let root: string
+  let sources: Array<{ name: string; filePath: string }>
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'maintainer-test-'))
+    sources = [{ name: 'colors_xiv.json', filePath: path.join(root, 'colors_xiv.json') }]
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('keeps only the newest generations', async () => {
+    const manager = new BackupManager(path.join(root, 'backups'), 2)
+    const ids: string[] = []
+    for (const count of [1, 2, 3]) {
+      await fs.writeFile(sources[0].filePath, JSON.stringify(Array(count).fill({})))
+      ids.push((await manager.snapshot(sources, `Backup ${count}`)).id)
+      // Backup IDs sort by their millisecond timestamp
+      await sleep(5)
+    }
+
+    const backups = await manager.list()
+    assert.deepEqual(backups.map((backup) => backup.id), [ids[2], ids[1]])
+    assert.equal(await manager.get(ids[0]), null)
+    assert.deepEqual(await manager.readFile(ids[1], 'colors_xiv.json'), [{}, {}])
+    assert.equal(backups[0].files[0].dyeCount, 3)
+  })
+})
@@ -0,0 +1,196 @@
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+
+/**
+ * A file captured in a backup
+ */
+export interface BackupFile {
+  /** Path relative to the core data directory (e.g. "locales/en.json") */
+  name: string
+  /** File size in bytes */
+  size: number
+  /** Number of dyes (colors_xiv.json) or dye names (locale files) */
+  dyeCount: number
+}
+
+/**
+ * Backup manifest, stored as manifest.json inside each backup directory
+ */
+export interface BackupManifest {
+  id: string
+  createdAt: string
+  /** Operation that triggered the snapshot (e.g. "Add dye 48163") */
+  reason: string
+  requestId?: string
+  files: BackupFile[]
+}
+
+/**
+ * A data file to snapshot or restore
+ */
+export interface BackupSource {
+  /** Path relative to the core data directory */
+  name: string
+  /** Absolute path of the live file */
+  filePath: string
+}
+
+/**
+ * Backup IDs are generated timestamps; anything else is rejected
+ * (also guards against path traversal through the :id route parameter)
+ */
+const BACKUP_ID_PATTERN = /^\d{8}T\d{9}Z-[0-9a-f]{6}$/
+
+/**
+ * Count dyes in a data file for the manifest
+ */
+function countDyes(data: unknown): number {
+  if (Array.isArray(data)) {
+    return data.length
+  }
+  const dyeNames = (data as { dyeNames?: Record<string, string> } | null)?.dyeNames
+  return dyeNames ? Object.keys(dyeNames).length : 0
+}
+
+/**
+ * BackupManager
+ *
+ * Snapshots colors_xiv.json and the locale files into timestamped directories
+ * before each mutation, and prunes old snapshots beyond the configured number
+ * of generations.
+ *
+ * Layout:
+ * ```
+ * backups/
+ *   20261019T143000123Z-a1b2c3/
+ *     manifest.json
+ *     colors_xiv.json
+ *     locales/en.json ...
+ * ```
+ */
+export class BackupManager {
+  constructor(
+    private readonly backupDir: string,
+    private readonly maxGenerations: number
+  ) {}
+
+  /**
+   * Check whether a string is a well-formed backup ID
+   *
+   * @param id - Value to check (typically a route parameter)
+   */
+  isValidId(id: string): boolean {
+    return BACKUP_ID_PATTERN.test(id)
+  }
+
+  /**
+   * Snapshot the given files into a new backup
+   *
+   * @param sources - Live data files to copy
+   * @param reason - Operation that triggered the snapshot
+   * @param requestId - Request ID for log correlation
+   * @returns Manifest of the new backup
+   */
+  async snapshot(sources: BackupSource[], reason: string, requestId?: string): Promise<BackupManifest> {
+    const createdAt = new Date()
+    const id = `${createdAt.toISOString().replace(/[-:.]/g, '')}-${crypto.randomBytes(3).toString('hex')}`
+    const dir = path.join(this.backupDir, id)
+
+    const files: BackupFile[] = []
+    for (const source of sources) {
+      const contents = await fs.readFile(source.filePath, 'utf-8')
+      const target = path.join(dir, source.name)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(target, contents, 'utf-8')
+
+      let dyeCount = 0
+      try {
+        dyeCount = countDyes(JSON.parse(contents))
+      } catch {
+        // Unparseable files are still backed up verbatim
+      }
+      files.push({ name: source.name, size: Buffer.byteLength(contents), dyeCount })
+    }
+
+    const manifest: BackupManifest = {
+      id,
+      createdAt: createdAt.toISOString(),
+      reason,
+      requestId,
+      files,
+    }
+    await fs.writeFile(path.join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n', 'utf-8')
+
+    await this.prune()
+    return manifest
+  }
+
+  /**
+   * List all backups, newest first
+   */
+  async list(): Promise<BackupManifest[]> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.backupDir)
+    } catch {
+      return [] // No backups taken yet
+    }
+
+    const manifests: BackupManifest[] = []
+    for (const id of entries.filter((entry) => this.isValidId(entry))) {
+      const manifest = await this.get(id)
+      if (manifest) {
+        manifests.push(manifest)
+      }
+    }
+
+    return manifests.sort((a, b) => b.id.localeCompare(a.id))
+  }
+
+  /**
+   * Read a backup's manifest
+   *
+   * @param id - Backup ID
+   * @returns The manifest, or null if the backup doesn't exist
+   */
+  async get(id: string): Promise<BackupManifest | null> {
+    if (!this.isValidId(id)) {
+      return null
+    }
+    try {
+      const data = await fs.readFile(path.join(this.backupDir, id, 'manifest.json'), 'utf-8')
+      return JSON.parse(data) as BackupManifest
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Read the contents of a file stored in a backup
+   *
+   * @param id - Backup ID (must be valid)
+   * @param name - File name from the manifest
+   * @returns Parsed file contents
+   */
+  async readFile(id: string, name: string): Promise<unknown> {
+    const data = await fs.readFile(path.join(this.backupDir, id, name), 'utf-8')
+    return JSON.parse(data)
+  }
+
+  /**
+   * Remove the oldest backups beyond the configured number of generations
+   */
+  private async prune(): Promise<void> {
+    const backups = await this.list()
+    const expired = backups.slice(this.maxGenerations)
+
+    for (const backup of expired) {
+      await fs.rm(path.join(this.backupDir, backup.id), { recursive: true, force: true })
+    }
+
+    if (expired.length > 0) {
+      console.log(`🧹 Pruned ${expired.length} old backup(s)`)
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+/**
+ * A data file to watch
+ */
+export interface WatchedFile {
+  /** Path relative to the core data directory (e.g. "locales/en.json") */
+  name: string
+  /** Absolute path of the live file */
+  filePath: string
+}
+
+/**
+ * Data files that changed on disk
+ */
+export interface DataChangeEvent {
+  /** Core target the files belong to */
+  target: string
+  /** Changed files, relative to the data directory */
+  files: string[]
+  /** "maintainer" for writes made through this server, "external" for anything else */
+  source: 'maintainer' | 'external'
+  timestamp: string
+}
+
+export type DataChangeListener = (event: DataChangeEvent) => void
+
+/**
+ * Hash of a file's contents ('' if it does not exist)
+ */
+async function hashFile(filePath: string): Promise<string> {
+  try {
+    const contents = await fs.promises.readFile(filePath)
+    return crypto.createHash('sha256').update(contents).digest('hex')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return ''
+    }
+    throw error
+  }
+}
+
+/**
+ * DataWatcher
+ *
+ * Watches the data files of one core target and notifies listeners when
+ * their contents change. The directories are watched rather than the files,
+ * because atomic writes (ours, editors', git checkouts) replace a file by
+ * renaming over it. Events are debounced, and a file only counts as changed
+ * if its contents hash differs from the last one seen, so touching a file or
+ * rewriting identical contents is silent.
+ *
+ * Writes made through the mutation pipeline are announced with
+ * expectWrites() beforehand and reported with source "maintainer"; every
+ * other change is "external".
+ */
+export class DataWatcher {
+  private target = ''
+  private files: WatchedFile[] = []
+  private watchers: fs.FSWatcher[] = []
+  private hashes = new Map<string, string>()
+  private expected = new Map<string, string>()
+  private pending = new Set<string>()
+  private timer: NodeJS.Timeout | null = null
+  private readonly listeners = new Set<DataChangeListener>()
+
+  constructor(private readonly debounceMs = 250) {}
+
+  /**
+   * Start watching a target's data files (stops watching the previous target)
+   *
+   * @param target - Name of the core target
+   * @param files - colors_xiv.json and the locale files
+   */
+  async watch(target: string, files: WatchedFile[]): Promise<void> {
+    this.close()
+    this.target = target
+    this.files = files
+
+    for (const file of files) {
+      this.hashes.set(file.filePath, await hashFile(file.filePath))
+    }
+
+    const directories = new Set(files.map((file) => path.dirname(file.filePath)))
+    for (const directory of directories) {
+      const watcher = fs.watch(directory, (_event, fileName) => {
+        if (fileName) {
+          this.queue(path.join(directory, fileName.toString()))
+        }
+      })
+      // A deleted or unmounted directory must not crash the server
+      watcher.on('error', (error) => {
+        console.warn(`⚠️  Stopped watching ${directory}: ${error.message}`)
+      })
+      this.watchers.push(watcher)
+    }
+  }
+
+  /**
+   * Stop watching
+   */
+  close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close()
+    }
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+    this.watchers = []
+    this.timer = null
+    this.hashes.clear()
+    this.expected.clear()
+    this.pending.clear()
+  }
+
+  /**
+   * Mark upcoming writes as made by the maintainer
+   *
+   * @param writes - Absolute path and exact contents of each file about to be written
+   */
+  expectWrites(writes: Array<{ filePath: string; contents: string }>): void {
+    for (const write of writes) {
+      this.expected.set(
+        write.filePath,
+        crypto.createHash('sha256').update(write.contents).digest('hex')
+      )
+    }
+  }
+
+  /**
+   * Register a listener for change events
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: DataChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private queue(filePath: string): void {
+    if (!this.files.some((file) => file.filePath === filePath)) {
+      return
+    }
+    this.pending.add(filePath)
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.flush().catch((error) => {
+        console.warn(`⚠️  Failed to check data files for changes: ${error.message}`)
+      })
+    }, this.debounceMs)
+  }
+
+  private async flush(): Promise<void> {
+    const target = this.target
+    const changed: Record<DataChangeEvent['source'], string[]> = { maintainer: [], external: [] }
+
+    for (const filePath of this.pending) {
+      this.pending.delete(filePath)
+
+      const hash = await hashFile(filePath)
+      if (this.target !== target || hash === this.hashes.get(filePath)) {
+        continue
+      }
+      this.hashes.set(filePath, hash)
+
+      const source = this.expected.get(filePath) === hash ? 'maintainer' : 'external'
+      this.expected.delete(filePath)
+      changed[source].push(this.files.find((file) => file.filePath === filePath)!.name)
+    }
+
+    const timestamp = new Date().toISOString()
+    for (const source of ['maintainer', 'external'] as const) {
+      if (changed[source].length === 0) continue
+
+      const event: DataChangeEvent = { target, files: changed[source].sort(), source, timestamp }
+      for (const listener of this.listeners) {
+        listener(event)
+      }
+    }
+  }
+}
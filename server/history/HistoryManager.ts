@@ -0,0 +1,139 @@
+import crypto from 'crypto'
+import { z } from 'zod'
+
+/**
+ * Change to a single data file recorded by an operation
+ */
+export interface FileChange {
+  /** Path relative to the core data directory (e.g. "locales/en.json") */
+  name: string
+  /** Absolute path of the live file */
+  filePath: string
+  /** Schema the file contents must satisfy */
+  schema: z.ZodSchema
+  /** File contents before the operation */
+  before: unknown
+  /** File contents after the operation */
+  after: unknown
+}
+
+/**
+ * A logical maintainer operation (add/edit/delete dye, locale edit, ...)
+ */
+export interface HistoryEntry {
+  id: string
+  timestamp: string
+  /** Human-readable description (e.g. "Update dye 5730") */
+  operation: string
+  /** Item IDs of the dyes affected by the operation */
+  itemIds: number[]
+  changes: FileChange[]
+}
+
+/**
+ * History entry as returned to the client (file contents omitted)
+ */
+export interface HistoryEntrySummary {
+  id: string
+  timestamp: string
+  operation: string
+  itemIds: number[]
+  files: string[]
+  /** true if the entry has been undone (and can be redone) */
+  undone: boolean
+}
+
+/**
+ * HistoryManager
+ *
+ * Keeps an undo/redo stack of operations as inverse-able change sets. Each
+ * entry stores the before and after contents of every file it wrote, so undo
+ * writes `before` back and redo writes `after` again.
+ *
+ * History is stored in memory and cleared on server restart (backups remain
+ * available for anything older).
+ */
+export class HistoryManager {
+  private entries: HistoryEntry[] = []
+  // Number of entries currently applied; entries at or beyond this index are undone
+  private position = 0
+
+  constructor(private readonly maxEntries: number) {}
+
+  /**
+   * Record a newly applied operation
+   *
+   * Discards any undone entries (a new operation ends the redo chain).
+   *
+   * @param operation - Human-readable description
+   * @param itemIds - Affected dye item IDs
+   * @param changes - Before/after contents of each written file
+   */
+  record(operation: string, itemIds: number[], changes: FileChange[]): HistoryEntry {
+    const entry: HistoryEntry = {
+      id: crypto.randomBytes(8).toString('hex'),
+      timestamp: new Date().toISOString(),
+      operation,
+      itemIds,
+      changes,
+    }
+
+    this.entries = this.entries.slice(0, this.position)
+    this.entries.push(entry)
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift()
+    }
+    this.position = this.entries.length
+
+    return entry
+  }
+
+  /**
+   * Get the entry that the next undo would revert
+   */
+  peekUndo(): HistoryEntry | null {
+    return this.position > 0 ? this.entries[this.position - 1] : null
+  }
+
+  /**
+   * Get the entry that the next redo would re-apply
+   */
+  peekRedo(): HistoryEntry | null {
+    return this.position < this.entries.length ? this.entries[this.position] : null
+  }
+
+  /**
+   * Mark the entry returned by peekUndo() as undone
+   */
+  markUndone(): void {
+    if (this.position > 0) {
+      this.position--
+    }
+  }
+
+  /**
+   * Mark the entry returned by peekRedo() as re-applied
+   */
+  markRedone(): void {
+    if (this.position < this.entries.length) {
+      this.position++
+    }
+  }
+
+  /**
+   * List history entries, newest first
+   */
+  list(): HistoryEntrySummary[] {
+    return this.entries
+      .map((entry, index) => ({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        operation: entry.operation,
+        itemIds: entry.itemIds,
+        files: entry.changes.map((change) => change.name),
+        undone: index >= this.position,
+      }))
+      .reverse()
+  }
+}
@@ -8,6 +8,28 @@ const API_KEY = process.env.MAINTAINER_API_KEY
 // Create a singleton session manager instance
 export const sessionManager = new SessionManager()
 
+/**
+ * Extend Express Request type to include the authenticated caller
+ */
+declare global {
+  namespace Express {
+    interface Request {
+      /**
+       * Who made an authenticated write: a short hash of the session token
+       * (never the token itself), or "api-key"
+       */
+      sessionId?: string
+    }
+  }
+}
+
+/**
+ * Identify a session in logs without revealing its token
+ */
+function sessionIdFor(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex').slice(0, 12)
+}
+
 /**
  * Timing-safe string comparison
  *
@@ -64,6 +86,7 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
 
   if (sessionToken && sessionManager.validateSession(sessionToken)) {
     // Valid session token - proceed
+    req.sessionId = sessionIdFor(sessionToken)
     next()
     return
   }
@@ -74,6 +97,7 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
 
     if (providedKey && timingSafeEqual(providedKey, API_KEY)) {
       // Valid API key - proceed
+      req.sessionId = 'api-key'
       next()
       return
     }
@@ -55,7 +55,7 @@ export interface SanitizedError {
  *   schema.parse(req.body)
  * } catch (error) {
  *   if (error instanceof z.ZodError) {
- *     console.warn('Validation failed:', error.errors) // Log details server-side
+ *     console.warn('Validation failed:', error.issues) // Log details server-side
  *     const safe = sanitizeZodError(error) // Get safe version for client
  *     res.status(400).json({ success: false, details: safe })
  *   }
@@ -63,7 +63,7 @@ export interface SanitizedError {
  * ```
  */
 export function sanitizeZodError(zodError: z.ZodError): SanitizedError[] {
-  return zodError.errors.map((err) => {
+  return zodError.issues.map((err) => {
     const code = mapZodErrorCode(err.code)
     const field = err.path.join('.')
 
@@ -86,6 +86,7 @@ function mapZodErrorCode(zodCode: string): ValidationErrorCode {
     case 'invalid_type':
       return ValidationErrorCode.INVALID_TYPE
     case 'invalid_string':
+    case 'invalid_format':
     case 'invalid_literal':
       return ValidationErrorCode.INVALID_FORMAT
     case 'too_small':
@@ -93,6 +94,7 @@ function mapZodErrorCode(zodCode: string): ValidationErrorCode {
     case 'too_big':
       return ValidationErrorCode.TOO_BIG
     case 'invalid_enum_value':
+    case 'invalid_value':
       return ValidationErrorCode.INVALID_ENUM
     default:
       return ValidationErrorCode.UNKNOWN
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express'
 import crypto from 'crypto'
 import { Logger } from '../utils/logger.js'
+import { isDryRun } from '../utils/request.js'
 
 /**
  * Request logging middleware
@@ -11,7 +12,8 @@ import { Logger } from '../utils/logger.js'
  * - Generates unique request ID for correlation across logs
  * - Logs all incoming requests with method, path, IP, user-agent
  * - Logs all responses with status code and duration
- * - Special AUDIT logging for successful mutation operations (POST/PUT/DELETE)
+ * - Special AUDIT logging for successful mutation operations (POST/PUT/DELETE);
+ *   dry runs (`?dryRun=true`) write nothing and are logged as INFO
  * - Attaches requestId to Request object for use in other middleware/routes
  *
  * @example
@@ -49,11 +51,15 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
 
   const startTime = Date.now()
 
+  // Full path without the query string (req.path is relative to the router
+  // handling the request)
+  const path = req.originalUrl.split('?')[0]
+
   // Log incoming request
   Logger.info('Incoming request', {
     requestId: req.requestId,
     method: req.method,
-    path: req.path,
+    path,
     ip: req.ip,
     userAgent: req.headers['user-agent'] || 'unknown',
   })
@@ -70,17 +76,25 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
     const logContext = {
       requestId: req.requestId,
       method: req.method,
-      path: req.path,
+      path,
       statusCode: res.statusCode,
       duration: `${duration}ms`,
       ip: req.ip,
+      sessionId: req.sessionId,
     }
 
+    const isMutation = ['POST', 'PUT', 'DELETE', 'PATCH'].includes(req.method)
+    const isSuccess = res.statusCode >= 200 && res.statusCode < 300
+
     // SECURITY: AUDIT log for successful mutations (write operations)
     // These are security-relevant events that modify data
-    if (['POST', 'PUT', 'DELETE', 'PATCH'].includes(req.method) && res.statusCode >= 200 && res.statusCode < 300) {
+    if (isMutation && isSuccess && !isDryRun(req)) {
       Logger.audit('Mutation operation completed', logContext)
     }
+    // INFO log for dry runs (validated like a mutation, but nothing is written)
+    else if (isMutation && isSuccess) {
+      Logger.info('Dry run completed', { ...logContext, dryRun: true })
+    }
     // WARN log for failed requests (4xx/5xx)
     else if (res.statusCode >= 400) {
       Logger.warn('Request failed', logContext)
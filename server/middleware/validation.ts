@@ -28,7 +28,7 @@ export function validateBody(schema: z.ZodSchema) {
           path: req.path,
           method: req.method,
           ip: req.ip,
-          errors: error.errors, // Full error details in logs
+          errors: error.issues, // Full error details in logs
         })
 
         // SECURITY: Send sanitized errors to client (no user input exposure)
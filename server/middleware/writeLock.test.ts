@@ -0,0 +1,72 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import express from 'express'
+import { listen } from '../test/scratchCore.js'
+import { withWriteLock } from './writeLock.js'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('withWriteLock', () => {
+  let server: Awaited<ReturnType<typeof listen>>
+  const events: string[] = []
+  let release: () => void = () => undefined
+
+  before(async () => {
+    const app = express()
+    // Answers at once, then keeps working until released (like a write
+    // still running after the request timeout answered)
+    app.post(
+      '/slow',
+      withWriteLock(async (_req, res) => {
+        events.push('slow')
+        res.json({ success: true })
+        await new Promise<void>((resolve) => {
+          release = resolve
+        })
+        events.push('slow done')
+      })
+    )
+    app.post(
+      '/fast',
+      withWriteLock((_req, res) => {
+        events.push('fast')
+        res.json({ success: true })
+      })
+    )
+    server = await listen(app)
+  })
+
+  after(async () => {
+    release()
+    await server.close()
+  })
+
+  it('holds the lock until the handler finishes, not until it responds', async () => {
+    events.length = 0
+    await fetch(`${server.url}/slow`, { method: 'POST' })
+    const fast = fetch(`${server.url}/fast`, { method: 'POST' })
+
+    await sleep(50)
+    assert.deepEqual(events, ['slow'])
+
+    release()
+    await fast
+    assert.deepEqual(events, ['slow', 'slow done', 'fast'])
+  })
+
+  it('skips a queued request whose client went away', async () => {
+    events.length = 0
+    await fetch(`${server.url}/slow`, { method: 'POST' })
+
+    const client = new AbortController()
+    const abandoned = fetch(`${server.url}/fast`, { method: 'POST', signal: client.signal })
+    await sleep(50)
+    client.abort()
+    await assert.rejects(abandoned)
+    await sleep(50)
+
+    release()
+    await fetch(`${server.url}/fast`, { method: 'POST' })
+    assert.deepEqual(events, ['slow', 'slow done', 'fast'])
+  })
+})
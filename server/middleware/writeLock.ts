@@ -0,0 +1,52 @@
+/**
+ * Write lock for route handlers
+ *
+ * Write routes read the data files, check If-Match against what they read,
+ * and write. If two writes interleaved, both could pass the check against the
+ * same version and the second would silently overwrite the first. Write
+ * handlers are therefore queued: each one runs to completion before the next
+ * one starts, so its ETag check always sees the data set it is about to
+ * replace. There is one queue for all targets, since only one target is
+ * active at a time (and switching targets is itself a queued write).
+ *
+ * @example
+ * router.patch('/:itemId', writeLimiter, validateBody(Schema), withWriteLock(async (req, res) => {
+ *   // read, check If-Match, applyMutation
+ * }))
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+
+// Settles once the last queued handler has finished
+let queue: Promise<void> = Promise.resolve()
+
+/**
+ * Run a route handler only while no other write handler is running
+ *
+ * The lock is held until the promise the handler returns settles, even if
+ * the client disconnects or the request timeout answers first. A request
+ * that is answered (e.g. 408) or whose client goes away while still queued
+ * is skipped.
+ *
+ * @param handler - Route handler doing the read-check-write
+ * @returns Route handler that queues behind earlier writes
+ */
+export function withWriteLock(
+  handler: (req: Request, res: Response, next: NextFunction) => unknown
+): RequestHandler {
+  return (req, res, next) => {
+    let gone = false
+    const onClose = () => {
+      gone = true
+    }
+    res.once('close', onClose)
+
+    const run = queue.then(async () => {
+      res.off('close', onClose)
+      if (gone || res.headersSent) return
+      await handler(req, res, next)
+    })
+    queue = run.catch(() => undefined)
+    run.catch(next)
+  }
+}
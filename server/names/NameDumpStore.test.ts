@@ -0,0 +1,48 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { NameDumpStore } from './NameDumpStore.js'
+
+describe('NameDumpStore', () => {
+  let root: string
+  let store: NameDumpStore
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'maintainer-test-'))
+    const dumpPath = path.join(root, 'dumps/ko/Item.csv')
+    await fs.mkdir(path.dirname(dumpPath), { recursive: true })
+    await fs.writeFile(dumpPath, '#,Name,ItemUICategory\n5729,염료: 하얀색,55\n4,불의 결정,59\n')
+
+    // An index written before categories were recorded, for the same dump
+    const stats = await fs.stat(dumpPath)
+    await fs.mkdir(path.join(root, 'cache'), { recursive: true })
+    await fs.writeFile(
+      path.join(root, 'cache/ko.json'),
+      JSON.stringify({
+        source: { size: stats.size, mtimeMs: stats.mtimeMs },
+        importedAt: '2026-01-01T00:00:00.000Z',
+        names: { 5729: '염료: 하얀색' },
+      })
+    )
+
+    store = new NameDumpStore({
+      dumpsDir: path.join(root, 'dumps'),
+      cacheDir: path.join(root, 'cache'),
+      locales: ['ko'],
+    })
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('rebuilds a cached index that has no categories', async () => {
+    assert.deepEqual(await store.lookup(5729), { ko: '염료: 하얀색' })
+    assert.deepEqual(await store.itemsInCategory(55), [5729])
+
+    const rebuilt = JSON.parse(await fs.readFile(path.join(root, 'cache/ko.json'), 'utf-8'))
+    assert.deepEqual(rebuilt.categories, { 4: 59, 5729: 55 })
+  })
+})
@@ -0,0 +1,277 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { parseItemSheet } from './itemCsv.js'
+
+export interface NameDumpStoreOptions {
+  /** Directory holding one `<locale>/Item.csv` dump per locale */
+  dumpsDir: string
+  /** Directory for the imported indexes (`<locale>.json`) */
+  cacheDir: string
+  /** Locales read from dumps */
+  locales: string[]
+}
+
+/**
+ * Import state of one locale's dump
+ */
+export interface NameDumpStatus {
+  locale: string
+  /** Dump location relative to the dumps directory (e.g. "ko/Item.csv") */
+  fileName: string
+  /** A dump is present and was imported */
+  available: boolean
+  /** Number of named items in the index */
+  itemCount: number
+  importedAt: string | null
+  /** Why the dump could not be imported */
+  error?: string
+}
+
+/**
+ * Imported index of a dump, as cached on disk
+ */
+interface NameIndexFile {
+  /** Size and modification time of the dump the index was built from */
+  source: { size: number; mtimeMs: number }
+  importedAt: string
+  names: Record<string, string>
+  /** ItemUICategory row by item ID */
+  categories: Record<string, number>
+}
+
+interface NameIndex {
+  source: { size: number; mtimeMs: number }
+  importedAt: string
+  names: Map<number, string>
+  categories: Map<number, number>
+}
+
+/**
+ * Check the shape of a cached index
+ *
+ * Indexes written before categories were recorded, and truncated or edited
+ * files, fail the check and are rebuilt from the dump.
+ */
+function isNameIndexFile(value: unknown): value is NameIndexFile {
+  const isObject = (field: unknown) => typeof field === 'object' && field !== null
+  if (!isObject(value)) return false
+  const file = value as Partial<NameIndexFile>
+  return (
+    isObject(file.source) &&
+    typeof file.source!.size === 'number' &&
+    typeof file.source!.mtimeMs === 'number' &&
+    typeof file.importedAt === 'string' &&
+    isObject(file.names) &&
+    isObject(file.categories)
+  )
+}
+
+/**
+ * NameDumpStore
+ *
+ * Serves item names for locales XIVAPI does not cover, from Item sheet CSV
+ * dumps placed in the dumps directory (e.g. from the community datamining
+ * repositories). Each dump is parsed once into an index of item ID to name
+ * (and ItemUICategory, when the dump has that column), cached as JSON so
+ * later server starts skip the parse, and re-imported whenever the dump's
+ * size or modification time changes.
+ *
+ * Layout:
+ * ```
+ * name-dumps/
+ *   ko/Item.csv
+ *   zh/Item.csv
+ * cache/names/
+ *   ko.json
+ *   zh.json
+ * ```
+ */
+export class NameDumpStore {
+  private readonly indexes = new Map<string, NameIndex>()
+  // Imports in progress, so concurrent lookups share one parse
+  private readonly pending = new Map<string, Promise<NameIndex | null>>()
+
+  constructor(private readonly options: NameDumpStoreOptions) {}
+
+  /**
+   * Locales read from dumps
+   */
+  get locales(): string[] {
+    return this.options.locales
+  }
+
+  private dumpName(locale: string): string {
+    return `${locale}/Item.csv`
+  }
+
+  private dumpPath(locale: string): string {
+    return path.join(this.options.dumpsDir, locale, 'Item.csv')
+  }
+
+  private cachePath(locale: string): string {
+    return path.join(this.options.cacheDir, `${locale}.json`)
+  }
+
+  /**
+   * Get the index of a locale, importing the dump if it is new or changed
+   *
+   * @param force - Re-import even if the cached index is current
+   * @returns The index, or null if there is no dump for the locale
+   * @throws Error if the dump cannot be parsed
+   */
+  private async load(locale: string, force = false): Promise<NameIndex | null> {
+    const inProgress = this.pending.get(locale)
+    if (inProgress) {
+      return inProgress
+    }
+
+    const loading = this.loadIndex(locale, force).finally(() => this.pending.delete(locale))
+    this.pending.set(locale, loading)
+    return loading
+  }
+
+  private async loadIndex(locale: string, force: boolean): Promise<NameIndex | null> {
+    let source: { size: number; mtimeMs: number }
+    try {
+      const stats = await fs.stat(this.dumpPath(locale))
+      source = { size: stats.size, mtimeMs: stats.mtimeMs }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.indexes.delete(locale)
+        return null
+      }
+      throw error
+    }
+
+    const isCurrent = (index: { source: typeof source }) =>
+      index.source.size === source.size && index.source.mtimeMs === source.mtimeMs
+
+    const loaded = this.indexes.get(locale)
+    if (!force && loaded && isCurrent(loaded)) {
+      return loaded
+    }
+
+    if (!force) {
+      const cached = await this.readCache(locale)
+      if (cached && isCurrent(cached)) {
+        const index = {
+          source: cached.source,
+          importedAt: cached.importedAt,
+          names: new Map(Object.entries(cached.names).map(([id, name]) => [Number(id), name])),
+          categories: new Map(
+            Object.entries(cached.categories).map(([id, category]) => [Number(id), category])
+          ),
+        }
+        this.indexes.set(locale, index)
+        return index
+      }
+    }
+
+    const { names, categories } = parseItemSheet(await fs.readFile(this.dumpPath(locale), 'utf-8'))
+    const index: NameIndex = { source, importedAt: new Date().toISOString(), names, categories }
+
+    const file: NameIndexFile = {
+      source,
+      importedAt: index.importedAt,
+      names: Object.fromEntries([...names].map(([id, name]) => [String(id), name])),
+      categories: Object.fromEntries([...categories].map(([id, category]) => [String(id), category])),
+    }
+    await fs.mkdir(this.options.cacheDir, { recursive: true })
+    await fs.writeFile(this.cachePath(locale), JSON.stringify(file), 'utf-8')
+
+    this.indexes.set(locale, index)
+    return index
+  }
+
+  private async readCache(locale: string): Promise<NameIndexFile | null> {
+    try {
+      const cached = JSON.parse(await fs.readFile(this.cachePath(locale), 'utf-8'))
+      return isNameIndexFile(cached) ? cached : null
+    } catch {
+      // Missing or unreadable cache: rebuild from the dump
+      return null
+    }
+  }
+
+  /**
+   * Look up an item's name in every locale with a dump
+   *
+   * Locales whose dump is missing, lacks the item or fails to import are
+   * left out.
+   *
+   * @param itemId - Item ID to look up
+   * @returns Name per locale, as written in the dump (dye prefix included)
+   */
+  async lookup(itemId: number): Promise<Record<string, string>> {
+    const names: Record<string, string> = {}
+    for (const locale of this.options.locales) {
+      try {
+        const name = (await this.load(locale))?.names.get(itemId)
+        if (name) {
+          names[locale] = name
+        }
+      } catch {
+        // Reported by status()
+      }
+    }
+    return names
+  }
+
+  /**
+   * List the items of an ItemUICategory in any dump that has the column
+   *
+   * @param category - ItemUICategory row (e.g. 55 for dyes)
+   * @returns Item IDs in ascending order, or null if no dump has categories
+   */
+  async itemsInCategory(category: number): Promise<number[] | null> {
+    const itemIds = new Set<number>()
+    let hasCategories = false
+
+    for (const locale of this.options.locales) {
+      try {
+        const index = await this.load(locale)
+        if (!index || index.categories.size === 0) continue
+        hasCategories = true
+        for (const [itemId, itemCategory] of index.categories) {
+          if (itemCategory === category) {
+            itemIds.add(itemId)
+          }
+        }
+      } catch {
+        // Reported by status()
+      }
+    }
+
+    return hasCategories ? [...itemIds].sort((a, b) => a - b) : null
+  }
+
+  /**
+   * Import state of every locale (importing dumps that are new or changed)
+   *
+   * @param force - Re-import every dump instead of using the cached indexes
+   */
+  async status(force = false): Promise<NameDumpStatus[]> {
+    const statuses: NameDumpStatus[] = []
+    for (const locale of this.options.locales) {
+      const status: NameDumpStatus = {
+        locale,
+        fileName: this.dumpName(locale),
+        available: false,
+        itemCount: 0,
+        importedAt: null,
+      }
+      try {
+        const index = await this.load(locale, force)
+        if (index) {
+          status.available = true
+          status.itemCount = index.names.size
+          status.importedAt = index.importedAt
+        }
+      } catch (error) {
+        status.error = error instanceof Error ? error.message : String(error)
+      }
+      statuses.push(status)
+    }
+    return statuses
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Item sheet CSV parsing
+ *
+ * Reads item names (and, when the dump has the column, each item's
+ * ItemUICategory) from a CSV dump of the game's Item sheet, in either of the
+ * common layouts:
+ * - Datamining CSVs (SaintCoinach style): a `key,0,1,...` row, a row of
+ *   column names starting with `#` and including `Name`, a row of types, then
+ *   one row per item
+ * - Plain exports with a header row naming an ID column (`#`, `key`, `id`,
+ *   `rowid`, `itemid`) and a `Name` column
+ */
+
+// Column names accepted for the item ID, in order of preference
+const ID_COLUMNS = ['#', 'key', 'id', 'rowid', 'row_id', 'itemid']
+
+// Rows searched for the header before giving up
+const HEADER_SEARCH_ROWS = 5
+
+/**
+ * Contents of an Item sheet dump
+ */
+export interface ItemSheet {
+  /** Name by item ID (rows with a blank name are skipped) */
+  names: Map<number, string>
+  /** ItemUICategory row by item ID (empty if the dump has no such column) */
+  categories: Map<number, number>
+}
+
+/**
+ * Split CSV text into rows, one at a time
+ *
+ * Supports quoted fields with embedded commas, quotes ("") and newlines.
+ */
+function* csvRows(text: string): Generator<string[]> {
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      yield row
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    yield row
+  }
+}
+
+/**
+ * Read the item names and categories from an Item sheet CSV
+ *
+ * @param text - Contents of the dump
+ * @throws Error if no header with an ID and a Name column is found
+ */
+export function parseItemSheet(text: string): ItemSheet {
+  const sheet: ItemSheet = { names: new Map(), categories: new Map() }
+  let columns: { id: number; name: number; category: number } | null = null
+  let rowIndex = 0
+
+  for (const row of csvRows(text)) {
+    if (!columns) {
+      const headers = row.map((cell) => cell.trim().toLowerCase())
+      const id = ID_COLUMNS.map((column) => headers.indexOf(column)).find((index) => index !== -1)
+      const name = headers.indexOf('name')
+      if (id !== undefined && name !== -1) {
+        columns = { id, name, category: headers.indexOf('itemuicategory') }
+      } else if (++rowIndex >= HEADER_SEARCH_ROWS) {
+        throw new Error('No header row with an ID and a Name column found')
+      }
+      continue
+    }
+
+    // Skips the type row of datamining CSVs (e.g. "int32,str,...")
+    const id = row[columns.id]?.trim() ?? ''
+    if (!/^\d+$/.test(id)) continue
+
+    const name = row[columns.name]?.trim() ?? ''
+    if (name) {
+      sheet.names.set(Number(id), name)
+    }
+
+    const category = columns.category === -1 ? '' : (row[columns.category]?.trim() ?? '')
+    if (/^\d+$/.test(category)) {
+      sheet.categories.set(Number(id), Number(category))
+    }
+  }
+
+  if (!columns) {
+    throw new Error('No header row with an ID and a Name column found')
+  }
+  return sheet
+}
@@ -0,0 +1,36 @@
+/**
+ * Audit log route
+ *
+ * Read access to the persisted audit log (see utils/audit.ts), filtered by
+ * date, level and item ID.
+ */
+
+import { Router } from 'express'
+import { AuditQuerySchema } from '../schemas.js'
+import { queryAuditLog } from '../utils/audit.js'
+import type { AuditQuery } from '../utils/audit.js'
+import { Logger } from '../utils/logger.js'
+
+export const auditRouter = Router()
+
+// GET /api/audit - Audit log entries, newest first
+// Optional ?from=&to= (ISO 8601), ?level=, ?itemId= and ?limit= (default 200)
+auditRouter.get('/', async (req, res) => {
+  const parsed = AuditQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: 'Invalid audit log filter' })
+  }
+
+  try {
+    res.json(await queryAuditLog(parsed.data as AuditQuery))
+  } catch (error) {
+    Logger.error('Error reading audit log', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to read audit log' })
+  }
+})
@@ -0,0 +1,50 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import path from 'path'
+import express from 'express'
+import { listen, readCoreFile, useScratchCore } from '../test/scratchCore.js'
+
+const { root, corePath } = await useScratchCore()
+const { backupsRouter } = await import('./backups.js')
+
+describe('POST /api/backups/:id/restore', () => {
+  let server: Awaited<ReturnType<typeof listen>>
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    app.use('/api/backups', backupsRouter)
+    server = await listen(app)
+  })
+
+  after(async () => {
+    await server.close()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('writes the backed-up files back and snapshots the current ones first', async () => {
+    const original = await readCoreFile<unknown>(corePath, 'locales/en.json')
+    const created = await (await fetch(`${server.url}/api/backups`, { method: 'POST' })).json()
+    assert.equal(created.success, true)
+
+    const enPath = path.join(corePath, 'src/data/locales/en.json')
+    const edited = { ...(original as object), dyeNames: {} }
+    await fs.writeFile(enPath, JSON.stringify(edited))
+
+    const response = await fetch(`${server.url}/api/backups/${created.backup.id}/restore`, {
+      method: 'POST',
+    })
+    assert.equal(response.status, 200)
+    assert.deepEqual(await readCoreFile(corePath, 'locales/en.json'), original)
+
+    const { backups } = await (await fetch(`${server.url}/api/backups`)).json()
+    assert.equal(backups.length, 2)
+    assert.equal(backups[0].reason, `Restore backup ${created.backup.id}`)
+  })
+
+  it('rejects a malformed backup ID', async () => {
+    const response = await fetch(`${server.url}/api/backups/..%2Fcore/restore`, { method: 'POST' })
+    assert.equal(response.status, 400)
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Backup routes
+ *
+ * Lists the automatic snapshots taken before each mutation and restores a
+ * snapshot over the live data files.
+ */
+
+import { Router } from 'express'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { Logger } from '../utils/logger.js'
+import { dataFiles, writeForDataFile } from '../utils/dataFiles.js'
+import { applyMutation, getBackupManager, previewMutation } from '../utils/mutation.js'
+import { isDryRun } from '../utils/request.js'
+import type { FileWrite } from '../utils/transaction.js'
+import { sendWriteError } from '../utils/writeErrors.js'
+
+export const backupsRouter = Router()
+
+// GET /api/backups - List backups (newest first) with the files each one contains
+backupsRouter.get('/', async (req, res) => {
+  try {
+    const backups = await getBackupManager().list()
+    res.json({ backups })
+  } catch (error) {
+    Logger.error('Error listing backups', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to list backups' })
+  }
+})
+
+// POST /api/backups - Take a manual snapshot of the current data files
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+backupsRouter.post('/', writeLimiter, withWriteLock(async (req, res) => {
+  try {
+    const backup = await getBackupManager().snapshot(dataFiles(), 'Manual backup', req.requestId)
+    res.json({ success: true, backup })
+  } catch (error) {
+    Logger.error('Error creating backup', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to create backup' })
+  }
+}))
+
+// POST /api/backups/:id/restore - Restore every file in a backup
+// The current files are snapshotted first, so a restore can itself be restored
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Backup IDs are validated against a strict pattern (no path traversal)
+backupsRouter.post('/:id/restore', writeLimiter, withWriteLock(async (req, res) => {
+  const { id } = req.params
+  const backupManager = getBackupManager()
+
+  if (!backupManager.isValidId(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid backup ID' })
+  }
+
+  try {
+    const backup = await backupManager.get(id)
+    if (!backup) {
+      return res.status(404).json({ success: false, error: 'Backup not found' })
+    }
+
+    const writes: FileWrite[] = []
+    for (const file of backup.files) {
+      const write = writeForDataFile(file.name, await backupManager.readFile(id, file.name))
+      if (write) {
+        writes.push(write)
+      }
+    }
+
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: `Restore backup ${id}`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+    })
+    res.json({ success: true })
+  } catch (error) {
+    sendWriteError(req, res, error, 'Failed to restore backup')
+  }
+}))
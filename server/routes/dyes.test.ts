@@ -0,0 +1,99 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import express from 'express'
+import { listen, readCoreFile, useScratchCore } from '../test/scratchCore.js'
+
+const { root, corePath } = await useScratchCore()
+const { dyesRouter } = await import('./dyes.js')
+
+describe('dye writes', () => {
+  let server: Awaited<ReturnType<typeof listen>>
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    app.use('/api/dyes', dyesRouter)
+    server = await listen(app)
+  })
+
+  after(async () => {
+    await server.close()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('imports only the schema fields of each record', async () => {
+    const response = await fetch(`${server.url}/api/dyes/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        records: [
+          {
+            dye: {
+              itemID: 48163,
+              category: 'Neutral',
+              name: 'Pure White',
+              hex: '#f9f8f4',
+              acquisition: 'Crafting',
+              price: null,
+              currency: null,
+              isMetallic: false,
+              isPastel: false,
+              isDark: false,
+              isCosmic: false,
+              injected: 'not a dye field',
+            },
+            localeNames: { en: 'Pure White', ja: '', de: '', fr: '', ko: '', zh: '' },
+          },
+        ],
+      }),
+    })
+    assert.equal(response.status, 200)
+
+    const dyes = await readCoreFile<Array<Record<string, unknown>>>(corePath, 'colors_xiv.json')
+    const written = dyes.find((dye) => dye.itemID === 48163)
+    assert.ok(written, 'imported dye is written')
+    assert.equal(written.name, 'Pure White')
+    assert.equal('injected' in written, false)
+  })
+
+  it('accepts only one of two concurrent updates based on the same version', async () => {
+    const etag = (await fetch(`${server.url}/api/dyes/5729`)).headers.get('ETag')
+    assert.ok(etag)
+
+    const patch = (name: string) =>
+      fetch(`${server.url}/api/dyes/5729`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'If-Match': etag },
+        body: JSON.stringify({ localeNames: { en: name } }),
+      })
+    const statuses = (await Promise.all([patch('First'), patch('Second')])).map((r) => r.status)
+    assert.deepEqual(statuses.sort(), [200, 409])
+  })
+
+  it('clears optional fields left out of a PUT', async () => {
+    const deprecated = await fetch(`${server.url}/api/dyes/5730`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'If-Match': (await fetch(`${server.url}/api/dyes/5730`)).headers.get('ETag') ?? '',
+      },
+      body: JSON.stringify({ dye: { deprecated: true } }),
+    })
+    assert.equal(deprecated.status, 200)
+
+    const record = await deprecated.json()
+    const { rgb: _rgb, hsv: _hsv, deprecated: _deprecated, ...dye } = record.dye
+    const response = await fetch(`${server.url}/api/dyes/5730`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'If-Match': deprecated.headers.get('ETag') ?? '' },
+      body: JSON.stringify({ dye, localeNames: record.localeNames }),
+    })
+    assert.equal(response.status, 200)
+
+    const dyes = await readCoreFile<Array<Record<string, unknown>>>(corePath, 'colors_xiv.json')
+    const written = dyes.find((entry) => entry.itemID === 5730)
+    assert.ok(written)
+    assert.equal('deprecated' in written, false)
+  })
+})
@@ -0,0 +1,436 @@
+/**
+ * Dye routes
+ *
+ * Per-dye operations that keep colors_xiv.json and all six locale files in
+ * step. Every mutation goes through applyMutation(): the current files are
+ * backed up, then all changes are committed as one transaction. With
+ * `?dryRun=true` the same checks run and a diff of each file is returned instead.
+ *
+ * Reading a single dye returns an ETag for that dye (entry plus locale names);
+ * editing, retiring or deleting it requires that tag in If-Match, so changes
+ * made elsewhere since it was loaded are never silently overwritten.
+ *
+ * Clients send only the editable fields: entries are built and merged here,
+ * with rgb/hsv derived from hex and the file's key order preserved, and only
+ * the locale files whose contents change are rewritten.
+ *
+ * Categories, acquisitions and currencies must be in the target's vocabulary
+ * (see utils/vocabulary.ts).
+ */
+
+import { Router, Request, Response } from 'express'
+import {
+  DyeDeprecationSchema,
+  DyeImportSchema,
+  DyePatchSchema,
+  DyeRecordInputSchema,
+} from '../schemas.js'
+import type { Dye, DyeInput, DyePatch, LocaleNames } from '../schemas.js'
+import { validateBody } from '../middleware/validation.js'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { sanitizeZodError } from '../middleware/errorSanitizer.js'
+import { Logger } from '../utils/logger.js'
+import {
+  LOCALE_CODES,
+  colorsWrite,
+  dataSetWrites,
+  localeWrite,
+  readDataSet,
+} from '../utils/dataFiles.js'
+import type { DataSet } from '../utils/dataFiles.js'
+import {
+  buildDye,
+  findDyeIndex,
+  localeNamesFor,
+  mergeDye,
+  parseItemId,
+  removeLocaleDye,
+  setLocaleDyeName,
+} from '../utils/dyeData.js'
+import { checkIfMatch, recordEtag } from '../utils/etag.js'
+import { applyMutation, previewMutation } from '../utils/mutation.js'
+import { isDryRun } from '../utils/request.js'
+import { checkVocabulary, readVocabulary } from '../utils/vocabulary.js'
+import { sendWriteError } from '../utils/writeErrors.js'
+
+export const dyesRouter = Router()
+
+/**
+ * A dye with its names from every locale file (the unit an ETag covers)
+ */
+function dyeRecord(dataSet: DataSet, itemId: number): { dye: Dye; localeNames: LocaleNames } {
+  return {
+    dye: dataSet.dyes[findDyeIndex(dataSet.dyes, itemId)],
+    localeNames: localeNamesFor(dataSet.locales, itemId),
+  }
+}
+
+// POST /api/dyes - Add a new dye to colors_xiv.json and all locale files in one transaction
+// Returns the written record (201) with its ETag
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Input validation with Zod schema
+dyesRouter.post('/', writeLimiter, validateBody(DyeRecordInputSchema), withWriteLock(async (req, res) => {
+  const { localeNames } = req.body as { localeNames: LocaleNames }
+  const dye = buildDye(req.body.dye as DyeInput)
+  if (dye.itemID === null) {
+    return res.status(400).json({ success: false, error: 'Item ID is required' })
+  }
+
+  try {
+    const dataSet = await readDataSet()
+    const vocabularyErrors = checkVocabulary(dye, readVocabulary(dataSet))
+    if (vocabularyErrors.length > 0) {
+      return res.status(400).json({ success: false, error: vocabularyErrors.join('; ') })
+    }
+    if (findDyeIndex(dataSet.dyes, dye.itemID) !== -1) {
+      return res.status(409).json({ success: false, error: 'Item ID already exists' })
+    }
+
+    dataSet.dyes.push(dye)
+    for (const code of LOCALE_CODES) {
+      setLocaleDyeName(dataSet.locales[code], dye, localeNames[code])
+    }
+
+    const writes = dataSetWrites(dataSet)
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: `Add dye ${dye.itemID}`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+      itemIds: [dye.itemID],
+    })
+    const record = dyeRecord(dataSet, dye.itemID)
+    res.setHeader('ETag', recordEtag(record))
+    res.status(201).json({ success: true, ...record })
+  } catch (error) {
+    sendWriteError(req, res, error, 'Failed to add dye')
+  }
+}))
+
+// POST /api/dyes/import - Validate and add many dyes in one transaction
+// Each record is validated on its own and errors are returned per row; nothing
+// is written if any row is invalid, and `?dryRun=true` returns the file diffs
+// instead of writing
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Input validation with Zod schema (per record)
+dyesRouter.post('/import', writeLimiter, validateBody(DyeImportSchema), withWriteLock(async (req, res) => {
+  const { records } = req.body as { records: unknown[] }
+
+  try {
+    const dataSet = await readDataSet()
+    const vocabulary = readVocabulary(dataSet)
+    const seen = new Set<number>()
+    const valid: Array<{ dye: Dye; localeNames: LocaleNames }> = []
+
+    const rows = records.map((record, index) => {
+      const parsed = DyeRecordInputSchema.safeParse(record)
+      if (!parsed.success) {
+        return { index, errors: sanitizeZodError(parsed.error).map((detail) => detail.message) }
+      }
+
+      const { dye } = parsed.data
+      const errors = checkVocabulary(dye, vocabulary)
+      if (dye.itemID === null) {
+        errors.push('Item ID is required')
+      } else if (findDyeIndex(dataSet.dyes, dye.itemID) !== -1) {
+        errors.push('Item ID already exists')
+      } else if (seen.has(dye.itemID)) {
+        errors.push('Item ID appears more than once in the import')
+      } else {
+        seen.add(dye.itemID)
+      }
+
+      if (errors.length === 0) {
+        valid.push({ dye: buildDye(dye), localeNames: parsed.data.localeNames })
+      }
+      return { index, errors }
+    })
+
+    const invalidCount = rows.filter((row) => row.errors.length > 0).length
+    if (invalidCount > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${invalidCount} of ${records.length} rows are invalid`,
+        rows,
+      })
+    }
+
+    for (const { dye, localeNames } of valid) {
+      dataSet.dyes.push(dye)
+      for (const code of LOCALE_CODES) {
+        setLocaleDyeName(dataSet.locales[code], dye, localeNames[code])
+      }
+    }
+
+    const writes = dataSetWrites(dataSet)
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, rows, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: `Import ${valid.length} dyes`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+      itemIds: valid.map(({ dye }) => dye.itemID as number),
+    })
+    res.json({ success: true, rows })
+  } catch (error) {
+    sendWriteError(req, res, error, 'Failed to import dyes')
+  }
+}))
+
+// GET /api/dyes - List every dye with its names from all locale files
+dyesRouter.get('/', async (req, res) => {
+  try {
+    const { dyes, locales } = await readDataSet()
+    const records = dyes.map((dye) => ({ dye, localeNames: localeNamesFor(locales, dye.itemID) }))
+    res.json({ dyes: records })
+  } catch (error) {
+    Logger.error('Error listing dyes', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to list dyes' })
+  }
+})
+
+// GET /api/dyes/:itemId - Read a single dye with its names from every locale file
+// The ETag header identifies this version of the dye for If-Match on later writes
+dyesRouter.get('/:itemId', async (req, res) => {
+  const itemId = parseItemId(req.params.itemId)
+  if (itemId === null) {
+    return res.status(400).json({ success: false, error: 'Invalid item ID' })
+  }
+
+  try {
+    const dataSet = await readDataSet()
+    if (findDyeIndex(dataSet.dyes, itemId) === -1) {
+      return res.status(404).json({ success: false, error: 'Dye not found' })
+    }
+
+    const record = dyeRecord(dataSet, itemId)
+    res.setHeader('ETag', recordEtag(record))
+    res.json(record)
+  } catch (error) {
+    Logger.error('Error reading dye', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      itemId: req.params.itemId,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to read dye' })
+  }
+})
+
+/**
+ * Update an existing dye in colors_xiv.json and the locale files
+ *
+ * 'replace' (PUT) builds the entry from the submitted fields alone, so omitted
+ * optional fields such as `deprecated` are cleared; 'merge' (PATCH) applies
+ * the changes to the current entry. Only the locale files whose name (or
+ * `metallicDyeIds`) changes are rewritten. Requires If-Match; 409 returns the
+ * current version and a diff of what overwriting would change.
+ */
+async function updateDye(
+  req: Request,
+  res: Response,
+  mode: 'replace' | 'merge',
+  dyeChanges: Partial<DyeInput>,
+  nameChanges: Partial<LocaleNames>
+): Promise<void> {
+  const itemId = parseItemId(req.params.itemId)
+  if (itemId === null) {
+    res.status(400).json({ success: false, error: 'Invalid item ID' })
+    return
+  }
+  if (dyeChanges.itemID !== undefined && dyeChanges.itemID !== itemId) {
+    res.status(400).json({ success: false, error: 'Item ID cannot be changed' })
+    return
+  }
+
+  try {
+    const dataSet = await readDataSet()
+    const index = findDyeIndex(dataSet.dyes, itemId)
+    if (index === -1) {
+      res.status(404).json({ success: false, error: 'Dye not found' })
+      return
+    }
+
+    const vocabularyErrors = checkVocabulary(dyeChanges, readVocabulary(dataSet))
+    if (vocabularyErrors.length > 0) {
+      res.status(400).json({ success: false, error: vocabularyErrors.join('; ') })
+      return
+    }
+
+    const current = dyeRecord(dataSet, itemId)
+    const dye =
+      mode === 'replace'
+        ? buildDye(dyeChanges as DyeInput)
+        : mergeDye(current.dye, dyeChanges)
+    const localeNames = { ...current.localeNames, ...nameChanges }
+    dataSet.dyes[index] = dye
+
+    const changedLocales = LOCALE_CODES.filter(
+      (code) =>
+        localeNames[code] !== current.localeNames[code] || dye.isMetallic !== current.dye.isMetallic
+    )
+    for (const code of changedLocales) {
+      setLocaleDyeName(dataSet.locales[code], dye, localeNames[code])
+    }
+
+    const writes = [
+      colorsWrite(dataSet.dyes),
+      ...changedLocales.map((code) => localeWrite(code, dataSet.locales[code])),
+    ]
+    const proceed = await checkIfMatch(req, res, `Dye ${itemId}`, recordEtag(current), async () => ({
+      current,
+      files: await previewMutation(writes),
+    }))
+    if (!proceed) return
+
+    if (isDryRun(req)) {
+      res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+      return
+    }
+
+    await applyMutation(writes, {
+      reason: `Update dye ${itemId}`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+      itemIds: [itemId],
+    })
+    const record = dyeRecord(dataSet, itemId)
+    res.setHeader('ETag', recordEtag(record))
+    res.json({ success: true, ...record })
+  } catch (error) {
+    sendWriteError(req, res, error, 'Failed to update dye')
+  }
+}
+
+// PUT /api/dyes/:itemId - Replace every editable field and locale name of a dye
+// Requires If-Match; returns the written record with its new ETag
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Input validation with Zod schema
+dyesRouter.put(
+  '/:itemId',
+  writeLimiter,
+  validateBody(DyeRecordInputSchema),
+  withWriteLock((req, res) => updateDye(req, res, 'replace', req.body.dye, req.body.localeNames))
+)
+
+// PATCH /api/dyes/:itemId - Change some fields or locale names of a dye (the rest are kept)
+// Requires If-Match; returns the merged record with its new ETag
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Input validation with Zod schema
+dyesRouter.patch('/:itemId', writeLimiter, validateBody(DyePatchSchema), withWriteLock(async (req, res) => {
+  const { dye = {}, localeNames = {} } = req.body as DyePatch
+  if (Object.keys(dye).length + Object.keys(localeNames).length === 0) {
+    return res.status(400).json({ success: false, error: 'No changes given' })
+  }
+  await updateDye(req, res, 'merge', dye, localeNames)
+}))
+
+// DELETE /api/dyes/:itemId - Remove a dye from colors_xiv.json and all locale files
+// Requires If-Match (409 with the current version if the dye changed since it was loaded)
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+dyesRouter.delete('/:itemId', writeLimiter, withWriteLock(async (req, res) => {
+  const itemId = parseItemId(req.params.itemId)
+  if (itemId === null) {
+    return res.status(400).json({ success: false, error: 'Invalid item ID' })
+  }
+
+  try {
+    const dataSet = await readDataSet()
+    const index = findDyeIndex(dataSet.dyes, itemId)
+    if (index === -1) {
+      return res.status(404).json({ success: false, error: 'Dye not found' })
+    }
+
+    const current = dyeRecord(dataSet, itemId)
+    dataSet.dyes.splice(index, 1)
+    for (const code of LOCALE_CODES) {
+      removeLocaleDye(dataSet.locales[code], itemId)
+    }
+
+    const writes = dataSetWrites(dataSet)
+    const proceed = await checkIfMatch(req, res, `Dye ${itemId}`, recordEtag(current), async () => ({
+      current,
+      files: await previewMutation(writes),
+    }))
+    if (!proceed) return
+
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: `Delete dye ${itemId}`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+      itemIds: [itemId],
+    })
+    res.json({ success: true })
+  } catch (error) {
+    sendWriteError(req, res, error, 'Failed to delete dye')
+  }
+}))
+
+// POST /api/dyes/:itemId/deprecate - Mark a dye as retired (soft delete) or restore it
+// Locale names are kept so the dye can still be displayed by consumers
+// Requires If-Match (409 with the current version if the dye changed since it was loaded)
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+dyesRouter.post(
+  '/:itemId/deprecate',
+  writeLimiter,
+  validateBody(DyeDeprecationSchema),
+  withWriteLock(async (req, res) => {
+    const itemId = parseItemId(req.params.itemId)
+    if (itemId === null) {
+      return res.status(400).json({ success: false, error: 'Invalid item ID' })
+    }
+
+    try {
+      const dataSet = await readDataSet()
+      const index = findDyeIndex(dataSet.dyes, itemId)
+      if (index === -1) {
+        return res.status(404).json({ success: false, error: 'Dye not found' })
+      }
+
+      // Omit the key entirely for active dyes to keep the file format unchanged
+      const current = dyeRecord(dataSet, itemId)
+      const { deprecated: _previous, ...dye } = current.dye
+      dataSet.dyes[index] = req.body.deprecated ? { ...dye, deprecated: true } : dye
+
+      const writes = [colorsWrite(dataSet.dyes)]
+      const proceed = await checkIfMatch(req, res, `Dye ${itemId}`, recordEtag(current), async () => ({
+        current,
+        files: await previewMutation(writes),
+      }))
+      if (!proceed) return
+
+      if (isDryRun(req)) {
+        return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+      }
+
+      await applyMutation(writes, {
+        reason: `${req.body.deprecated ? 'Deprecate' : 'Restore'} dye ${itemId}`,
+        requestId: req.requestId,
+        sessionId: req.sessionId,
+        itemIds: [itemId],
+      })
+      res.setHeader('ETag', recordEtag(dyeRecord(dataSet, itemId)))
+      res.json({ success: true })
+    } catch (error) {
+      sendWriteError(req, res, error, 'Failed to update dye')
+    }
+  })
+)
@@ -0,0 +1,43 @@
+/**
+ * Event stream routes
+ *
+ * Server-sent events announcing changes to the active target's data files,
+ * so open views can reload instead of working from stale contents. Changes
+ * made through this server are reported too (with source "maintainer"),
+ * which keeps several open tabs in sync.
+ */
+
+import { Router } from 'express'
+import { dataWatcher } from '../utils/dataEvents.js'
+
+export const eventsRouter = Router()
+
+// Comment line sent while idle, so the connection is not considered dead
+const HEARTBEAT_MS = 20000
+
+// Reconnect delay suggested to EventSource clients
+const RETRY_MS = 3000
+
+// GET /api/events - Stream data file change events (text/event-stream)
+eventsRouter.get('/', (req, res) => {
+  // Long-lived stream: lift the 30s socket timeout set by requestTimeout
+  req.socket.setTimeout(0)
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  })
+  res.flushHeaders()
+  res.write(`retry: ${RETRY_MS}\n\n`)
+
+  const unsubscribe = dataWatcher.subscribe((event) => {
+    res.write(`event: change\ndata: ${JSON.stringify(event)}\n\n`)
+  })
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  })
+})
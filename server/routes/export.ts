@@ -0,0 +1,61 @@
+/**
+ * Export routes
+ *
+ * Downloads of the dye database in spreadsheet and palette formats. The client
+ * passes the item IDs visible in its current view so exports match its filters.
+ */
+
+import { Router } from 'express'
+import { Logger } from '../utils/logger.js'
+import { readDataSet } from '../utils/dataFiles.js'
+import { localeNamesFor, parseItemId } from '../utils/dyeData.js'
+import { EXPORT_FORMATS } from '../utils/exporters.js'
+
+export const exportRouter = Router()
+
+// Upper bound on ?itemIds= entries (the whole database is well below this)
+const MAX_EXPORT_IDS = 2000
+
+// GET /api/export/:format - Download dyes as csv, json, gpl, ase or css
+// Optional ?itemIds=5729,5730 limits (and orders) the export; all dyes otherwise
+exportRouter.get('/:format', async (req, res) => {
+  const format = Object.hasOwn(EXPORT_FORMATS, req.params.format)
+    ? EXPORT_FORMATS[req.params.format]
+    : undefined
+  if (!format) {
+    return res.status(400).json({ success: false, error: 'Unsupported export format' })
+  }
+
+  let itemIds: number[] | null = null
+  if (typeof req.query.itemIds === 'string') {
+    const values = req.query.itemIds.split(',').filter(Boolean)
+    itemIds = values.map(parseItemId).filter((id): id is number => id !== null)
+    if (itemIds.length !== values.length || itemIds.length > MAX_EXPORT_IDS) {
+      return res.status(400).json({ success: false, error: 'Invalid item ID list' })
+    }
+  }
+
+  try {
+    const { dyes, locales } = await readDataSet()
+    const records = dyes.map((dye) => ({ dye, localeNames: localeNamesFor(locales, dye.itemID) }))
+
+    let selected = records
+    if (itemIds) {
+      const byId = new Map(records.map((record) => [record.dye.itemID, record]))
+      selected = itemIds.flatMap((id) => byId.get(id) ?? [])
+    }
+
+    res.setHeader('Content-Type', format.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="xiv-dyes.${format.extension}"`)
+    res.send(format.render(selected))
+  } catch (error) {
+    Logger.error('Error exporting dyes', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to export dyes' })
+  }
+})
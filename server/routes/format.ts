@@ -0,0 +1,45 @@
+/**
+ * Format route
+ *
+ * Rewrites the data files in canonical form (see utils/canonicalJson.ts)
+ * without changing any data, e.g. after they were edited by hand or written
+ * by an older version of the maintainer.
+ */
+
+import { Router } from 'express'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { dataFiles, dataSetWrites, readDataSet } from '../utils/dataFiles.js'
+import { applyMutation, previewMutation } from '../utils/mutation.js'
+import { isDryRun } from '../utils/request.js'
+import { sendWriteError } from '../utils/writeErrors.js'
+
+export const formatRouter = Router()
+
+// POST /api/format - Re-canonicalize colors_xiv.json and the locale files
+// Only files whose formatting changes are rewritten
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+formatRouter.post('/', writeLimiter, withWriteLock(async (req, res) => {
+  try {
+    const writes = dataSetWrites(await readDataSet())
+    const files = await previewMutation(writes)
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files })
+    }
+    if (files.length === 0) {
+      return res.json({ success: true, formatted: [] })
+    }
+
+    const changedPaths = dataFiles()
+      .filter((dataFile) => files.some((file) => file.name === dataFile.name))
+      .map((dataFile) => dataFile.filePath)
+    await applyMutation(writes.filter((write) => changedPaths.includes(write.filePath)), {
+      reason: 'Format data files',
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+    })
+    res.json({ success: true, formatted: files.map((file) => file.name) })
+  } catch (error) {
+    sendWriteError(req, res, error, 'Failed to format data files')
+  }
+}))
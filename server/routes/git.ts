@@ -0,0 +1,107 @@
+/**
+ * Git routes
+ *
+ * When the active core target is a git checkout, shows which data files have
+ * uncommitted changes and commits them locally with a generated message.
+ * Nothing is ever pushed.
+ */
+
+import { Router } from 'express'
+import { GitCommitSchema } from '../schemas.js'
+import { validateBody } from '../middleware/validation.js'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { Logger } from '../utils/logger.js'
+import { readDataSet } from '../utils/dataFiles.js'
+import {
+  GitError,
+  buildCommitMessage,
+  changedDataFiles,
+  commitDataFiles,
+  currentBranch,
+  dataFilesDiff,
+  isGitRepo,
+  summarizeDyeChanges,
+} from '../utils/git.js'
+
+export const gitRouter = Router()
+
+// GET /api/git/status - Branch, changed data files and a suggested commit message
+gitRouter.get('/status', async (req, res) => {
+  try {
+    if (!(await isGitRepo())) {
+      return res.json({ isRepo: false })
+    }
+
+    const files = await changedDataFiles()
+    const summary = await summarizeDyeChanges(await readDataSet())
+    res.json({
+      isRepo: true,
+      branch: await currentBranch(),
+      files,
+      summary,
+      message: buildCommitMessage(summary),
+    })
+  } catch (error) {
+    Logger.error('Error reading git status', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to read git status' })
+  }
+})
+
+// GET /api/git/diff - Unified diff of uncommitted data file changes
+gitRouter.get('/diff', async (req, res) => {
+  try {
+    if (!(await isGitRepo())) {
+      return res.status(409).json({ success: false, error: 'Core target is not a git repository' })
+    }
+    res.json({ diff: await dataFilesDiff() })
+  } catch (error) {
+    Logger.error('Error reading git diff', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to read git diff' })
+  }
+})
+
+// POST /api/git/commit - Commit the data files, optionally on a new branch
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Only colors_xiv.json and the locale files are staged; arguments are
+// passed to git directly (no shell) and branch names are checked by git itself
+gitRouter.post('/commit', writeLimiter, validateBody(GitCommitSchema), withWriteLock(async (req, res) => {
+  const { message, branch } = req.body as { message: string; branch?: string }
+
+  try {
+    if (!(await isGitRepo())) {
+      return res.status(409).json({ success: false, error: 'Core target is not a git repository' })
+    }
+    if ((await changedDataFiles()).length === 0) {
+      return res.status(409).json({ success: false, error: 'No data file changes to commit' })
+    }
+
+    const result = await commitDataFiles(message, branch)
+    Logger.info('Committed data files', { requestId: req.requestId, ...result })
+    res.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof GitError) {
+      return res.status(400).json({ success: false, error: error.message })
+    }
+    Logger.error('Error committing data files', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to commit data files' })
+  }
+}))
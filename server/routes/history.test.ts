@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import path from 'path'
+import express from 'express'
+import { listen, readCoreFile, useScratchCore } from '../test/scratchCore.js'
+
+const { root, corePath } = await useScratchCore()
+const { dyesRouter } = await import('./dyes.js')
+const { historyRouter } = await import('./history.js')
+
+type LocaleFile = { dyeNames: Record<string, string> }
+
+describe('undo/redo', () => {
+  let server: Awaited<ReturnType<typeof listen>>
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    app.use('/api/dyes', dyesRouter)
+    app.use('/api/history', historyRouter)
+    server = await listen(app)
+
+    const etag = (await fetch(`${server.url}/api/dyes/5729`)).headers.get('ETag') ?? ''
+    const response = await fetch(`${server.url}/api/dyes/5729`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'If-Match': etag },
+      body: JSON.stringify({ localeNames: { en: 'Renamed' } }),
+    })
+    assert.equal(response.status, 200)
+  })
+
+  after(async () => {
+    await server.close()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  const step = (direction: 'undo' | 'redo') =>
+    fetch(`${server.url}/api/history/${direction}`, { method: 'POST' })
+
+  it('undoes the last operation', async () => {
+    assert.equal((await step('undo')).status, 200)
+    const en = await readCoreFile<LocaleFile>(corePath, 'locales/en.json')
+    assert.equal(en.dyeNames['5729'], 'Snow White en')
+  })
+
+  it('refuses to redo over a file changed since', async () => {
+    // Edited outside the tool after the undo
+    const en = await readCoreFile<LocaleFile>(corePath, 'locales/en.json')
+    en.dyeNames['5730'] = 'Edited by hand'
+    await fs.writeFile(path.join(corePath, 'src/data/locales/en.json'), JSON.stringify(en, null, 2))
+
+    const response = await step('redo')
+    assert.equal(response.status, 409)
+    assert.match((await response.json()).error, /locales\/en\.json has changed/)
+
+    const current = await readCoreFile<LocaleFile>(corePath, 'locales/en.json')
+    assert.equal(current.dyeNames['5729'], 'Snow White en')
+    assert.equal(current.dyeNames['5730'], 'Edited by hand')
+  })
+})
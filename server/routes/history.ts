@@ -0,0 +1,109 @@
+/**
+ * History routes
+ *
+ * Undo/redo for maintainer operations. Each operation recorded by
+ * applyMutation() stores the before/after contents of the files it wrote;
+ * undo writes the `before` contents back, redo writes `after` again.
+ */
+
+import { Router, Request, Response } from 'express'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { readJsonFile } from '../utils/dataFiles.js'
+import { applyMutation, getHistoryManager, previewMutation } from '../utils/mutation.js'
+import { isDryRun } from '../utils/request.js'
+import { serializeJson } from '../utils/transaction.js'
+import { sendWriteError } from '../utils/writeErrors.js'
+
+export const historyRouter = Router()
+
+/**
+ * Check whether the live file still has the expected contents
+ * (compared as normalized JSON, so formatting differences are ignored)
+ */
+async function fileMatches(filePath: string, expected: unknown): Promise<boolean> {
+  const current = await readJsonFile<unknown>(filePath)
+  return serializeJson(current) === serializeJson(expected)
+}
+
+/**
+ * Undo or redo the next operation in the history
+ *
+ * Refuses with 409 if any file the operation touched has changed since
+ * (e.g. edited outside the tool), rather than overwriting those changes.
+ */
+async function step(direction: 'undo' | 'redo', req: Request, res: Response): Promise<void> {
+  const history = getHistoryManager()
+  const entry = direction === 'undo' ? history.peekUndo() : history.peekRedo()
+  if (!entry) {
+    res.status(409).json({ success: false, error: `Nothing to ${direction}` })
+    return
+  }
+
+  try {
+    for (const change of entry.changes) {
+      const expected = direction === 'undo' ? change.after : change.before
+      if (!(await fileMatches(change.filePath, expected))) {
+        res.status(409).json({
+          success: false,
+          error: `${change.name} has changed since "${entry.operation}"; restore a backup instead`,
+        })
+        return
+      }
+    }
+
+    const writes = entry.changes.map((change) => ({
+      filePath: change.filePath,
+      schema: change.schema,
+      data: direction === 'undo' ? change.before : change.after,
+    }))
+    if (isDryRun(req)) {
+      res.json({
+        success: true,
+        dryRun: true,
+        operation: entry.operation,
+        files: await previewMutation(writes),
+      })
+      return
+    }
+
+    await applyMutation(
+      writes,
+      {
+        reason: `${direction === 'undo' ? 'Undo' : 'Redo'}: ${entry.operation}`,
+        requestId: req.requestId,
+        sessionId: req.sessionId,
+        itemIds: entry.itemIds,
+        recordHistory: false,
+      }
+    )
+
+    if (direction === 'undo') {
+      history.markUndone()
+    } else {
+      history.markRedone()
+    }
+
+    res.json({ success: true, operation: entry.operation })
+  } catch (error) {
+    sendWriteError(req, res, error, `Failed to ${direction} operation`)
+  }
+}
+
+// GET /api/history - List recorded operations (newest first)
+historyRouter.get('/', (req, res) => {
+  const history = getHistoryManager()
+  res.json({
+    entries: history.list(),
+    canUndo: history.peekUndo() !== null,
+    canRedo: history.peekRedo() !== null,
+  })
+})
+
+// POST /api/history/undo - Revert the most recent operation
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+historyRouter.post('/undo', writeLimiter, withWriteLock((req, res) => step('undo', req, res)))
+
+// POST /api/history/redo - Re-apply the most recently undone operation
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+historyRouter.post('/redo', writeLimiter, withWriteLock((req, res) => step('redo', req, res)))
@@ -0,0 +1,75 @@
+/**
+ * Integrity routes
+ *
+ * Whole-database consistency report (duplicates, derived colors, locale
+ * coverage, meta counts) with one-click fixes for the issues that can be
+ * repaired without guessing.
+ */
+
+import { Router } from 'express'
+import { IntegrityFixSchema } from '../schemas.js'
+import { validateBody } from '../middleware/validation.js'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { Logger } from '../utils/logger.js'
+import { dataSetWrites, readDataSet } from '../utils/dataFiles.js'
+import { applyIntegrityFix, checkIntegrity } from '../utils/integrity.js'
+import type { IntegrityIssueCode } from '../utils/integrity.js'
+import { applyMutation, previewMutation } from '../utils/mutation.js'
+import { isDryRun } from '../utils/request.js'
+import { sendWriteError } from '../utils/writeErrors.js'
+
+export const integrityRouter = Router()
+
+// GET /api/integrity - Check colors_xiv.json and all locale files for consistency
+integrityRouter.get('/', async (req, res) => {
+  try {
+    const dataSet = await readDataSet()
+    const issues = checkIntegrity(dataSet)
+    res.json({
+      dyeCount: dataSet.dyes.length,
+      errorCount: issues.filter((issue) => issue.severity === 'error').length,
+      warningCount: issues.filter((issue) => issue.severity === 'warning').length,
+      issues,
+    })
+  } catch (error) {
+    Logger.error('Error checking integrity', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to check integrity' })
+  }
+})
+
+// POST /api/integrity/fix - Repair every issue of one fixable kind
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Input validation with Zod schema
+integrityRouter.post('/fix', writeLimiter, validateBody(IntegrityFixSchema), withWriteLock(async (req, res) => {
+  const code = req.body.code as IntegrityIssueCode
+
+  try {
+    const dataSet = await readDataSet()
+    if (!checkIntegrity(dataSet).some((issue) => issue.code === code)) {
+      return res.status(409).json({ success: false, error: 'No issues of this kind to fix' })
+    }
+
+    const itemIds = applyIntegrityFix(dataSet, code)
+    const writes = dataSetWrites(dataSet)
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: `Integrity fix: ${code}`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+      itemIds,
+    })
+    res.json({ success: true, issues: checkIntegrity(dataSet) })
+  } catch (error) {
+    sendWriteError(req, res, error, 'Failed to apply integrity fix')
+  }
+}))
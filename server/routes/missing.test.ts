@@ -0,0 +1,59 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { once } from 'events'
+import fs from 'fs/promises'
+import path from 'path'
+import express from 'express'
+import { listen, useScratchCore } from '../test/scratchCore.js'
+
+const { root } = await useScratchCore()
+
+// Stand-in for XIVAPI that never answers, recording when each request is dropped
+const dropped: Array<Promise<unknown>> = []
+const xivapiApp = express()
+xivapiApp.use((_req, res) => {
+  dropped.push(once(res, 'close'))
+})
+const xivapiServer = await listen(xivapiApp)
+
+process.env.XIVAPI_OFFLINE = 'false'
+process.env.XIVAPI_BASE_URL = xivapiServer.url
+const { missingRouter } = await import('./missing.js')
+
+describe('GET /api/missing', () => {
+  let server: Awaited<ReturnType<typeof listen>>
+
+  before(async () => {
+    const app = express()
+    app.use('/api/missing', missingRouter)
+    server = await listen(app)
+  })
+
+  after(async () => {
+    await server.close()
+    await xivapiServer.close()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('stops asking XIVAPI once the client disconnects', async () => {
+    const client = new AbortController()
+    const response = fetch(`${server.url}/api/missing?source=xivapi`, { signal: client.signal })
+    await assert.rejects(
+      (async () => {
+        while (dropped.length === 0) {
+          await new Promise((resolve) => setTimeout(resolve, 10))
+        }
+        client.abort()
+        await response
+      })()
+    )
+
+    // The server drops its XIVAPI request long before the 5s attempt timeout
+    const timeout = new Promise((_resolve, reject) => {
+      setTimeout(() => reject(new Error('XIVAPI request still open')), 1000).unref()
+    })
+    await Promise.race([dropped[0], timeout])
+    assert.equal(dropped.length, 1, 'no retry after the disconnect')
+    await assert.rejects(fs.readdir(path.join(root, 'xivapi')), { code: 'ENOENT' })
+  })
+})
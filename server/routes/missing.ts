@@ -0,0 +1,66 @@
+/**
+ * Missing dye routes
+ *
+ * "What's missing" scan: dye items in the game that colors_xiv.json does not
+ * have yet (see utils/missingDyes.ts).
+ */
+
+import { Router } from 'express'
+import { Logger } from '../utils/logger.js'
+import { readDataSet } from '../utils/dataFiles.js'
+import {
+  isMissingDyeSource,
+  MissingDyeScanTimeoutError,
+  MissingDyeSourceError,
+  scanMissingDyes,
+} from '../utils/missingDyes.js'
+import { xivapi } from '../utils/xivapi.js'
+import { XivapiUnavailableError } from '../xivapi/XivapiClient.js'
+
+export const missingRouter = Router()
+
+// GET /api/missing?source=xivapi|dumps&refresh=true - Dye items not in colors_xiv.json, with their names
+// `refresh` fetches the XIVAPI dye list again instead of using the cached one
+// 404 if no local dump has item categories; 503 if XIVAPI cannot be reached and nothing is cached;
+// 504 if the scan runs out of time (names fetched so far stay cached)
+missingRouter.get('/', async (req, res) => {
+  const source = typeof req.query.source === 'string' ? req.query.source : 'xivapi'
+  if (!isMissingDyeSource(source)) {
+    return res.status(400).json({ success: false, error: 'Invalid source' })
+  }
+
+  // Stop scanning once the client is gone (e.g. it gave up waiting)
+  const disconnected = new AbortController()
+  res.on('close', () => disconnected.abort())
+
+  try {
+    const scan = await scanMissingDyes(
+      await readDataSet(),
+      source,
+      req.query.refresh === 'true',
+      disconnected.signal
+    )
+    res.json({ ...scan, offline: xivapi.offline })
+  } catch (error) {
+    if (disconnected.signal.aborted) {
+      return
+    }
+    if (error instanceof MissingDyeScanTimeoutError) {
+      return res.status(504).json({ success: false, error: error.message })
+    }
+    if (error instanceof MissingDyeSourceError) {
+      return res.status(404).json({ success: false, error: error.message })
+    }
+    if (error instanceof XivapiUnavailableError) {
+      return res.status(503).json({ success: false, error: `XIVAPI unavailable: ${error.message}` })
+    }
+    Logger.error('Error scanning for missing dyes', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to scan for missing dyes' })
+  }
+})
@@ -0,0 +1,69 @@
+/**
+ * Name dump routes
+ *
+ * Item names from the local Korean and Chinese dumps (see utils/nameDumps.ts),
+ * for the locales XIVAPI does not serve.
+ */
+
+import { Router } from 'express'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { Logger } from '../utils/logger.js'
+import { parseItemId } from '../utils/dyeData.js'
+import { nameDumps } from '../utils/nameDumps.js'
+
+export const namesRouter = Router()
+
+// GET /api/names - Which locales have a dump, with item counts and import times
+namesRouter.get('/', async (req, res) => {
+  try {
+    res.json({ sources: await nameDumps.status() })
+  } catch (error) {
+    Logger.error('Error reading name dumps', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to read name dumps' })
+  }
+})
+
+// POST /api/names/import - Re-import every dump into the local index
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+namesRouter.post('/import', writeLimiter, async (req, res) => {
+  try {
+    res.json({ success: true, sources: await nameDumps.status(true) })
+  } catch (error) {
+    Logger.error('Error importing name dumps', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to import name dumps' })
+  }
+})
+
+// GET /api/names/:itemId - An item's names from the dumps (dye prefix not stripped)
+namesRouter.get('/:itemId', async (req, res) => {
+  const itemId = parseItemId(req.params.itemId)
+  if (itemId === null) {
+    return res.status(400).json({ success: false, error: 'Invalid item ID' })
+  }
+
+  try {
+    res.json({ itemId, names: await nameDumps.lookup(itemId) })
+  } catch (error) {
+    Logger.error('Error looking up item names', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      itemId: req.params.itemId,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to look up item names' })
+  }
+})
@@ -0,0 +1,54 @@
+/**
+ * Core target routes
+ *
+ * Lists the configured xivdyetools-core copies and switches which one every
+ * data file route reads and writes. Targets are identified by name only;
+ * their paths stay on the server.
+ */
+
+import { Router } from 'express'
+import { TargetSwitchSchema } from '../schemas.js'
+import { validateBody } from '../middleware/validation.js'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { Logger } from '../utils/logger.js'
+import { targetManager } from '../utils/coreTargets.js'
+import { watchActiveTarget } from '../utils/dataEvents.js'
+
+export const targetsRouter = Router()
+
+// GET /api/targets - List configured core targets and the active one
+targetsRouter.get('/', (req, res) => {
+  res.json({ targets: targetManager.list(), active: targetManager.active().name })
+})
+
+// PUT /api/targets/active - Switch the active core target
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Only configured targets can be selected; paths are re-validated
+// before switching and validation details (absolute paths) are only logged
+targetsRouter.put('/active', writeLimiter, validateBody(TargetSwitchSchema), withWriteLock(async (req, res) => {
+  const { name } = req.body as { name: string }
+  if (!targetManager.has(name)) {
+    return res.status(404).json({ success: false, error: 'Unknown core target' })
+  }
+
+  try {
+    await targetManager.switchTo(name)
+    await watchActiveTarget()
+    Logger.info('Switched core target', { requestId: req.requestId, target: name })
+    res.json({ success: true, active: name })
+  } catch (error) {
+    Logger.error('Core target failed validation', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      target: name,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(400).json({
+      success: false,
+      error: `Target "${name}" is not a usable xivdyetools-core checkout`,
+    })
+  }
+}))
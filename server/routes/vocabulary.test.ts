@@ -0,0 +1,52 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import express from 'express'
+import { listen, readCoreFile, useScratchCore } from '../test/scratchCore.js'
+
+const { root, corePath } = await useScratchCore()
+const { vocabularyRouter } = await import('./vocabulary.js')
+
+describe('PUT /api/vocabulary/:kind/:key', () => {
+  let server: Awaited<ReturnType<typeof listen>>
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    app.use('/api/vocabulary', vocabularyRouter)
+    server = await listen(app)
+  })
+
+  after(async () => {
+    await server.close()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  function relabel(label: string, etag?: string): Promise<Response> {
+    return fetch(`${server.url}/api/vocabulary/categories/Neutral`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(etag ? { 'If-Match': etag } : {}) },
+      body: JSON.stringify({ labels: { en: label } }),
+    })
+  }
+
+  it('requires the ETag of the vocabulary', async () => {
+    const response = await relabel('Plain')
+    assert.equal(response.status, 428)
+  })
+
+  it('refuses a write based on an earlier version', async () => {
+    const etag = (await fetch(`${server.url}/api/vocabulary`)).headers.get('ETag')
+    assert.ok(etag)
+
+    const first = await relabel('Plain', etag)
+    assert.equal(first.status, 200)
+    assert.notEqual(first.headers.get('ETag'), etag)
+
+    const second = await relabel('Simple', etag)
+    assert.equal(second.status, 409)
+
+    const en = await readCoreFile<{ categories: Record<string, string> }>(corePath, 'locales/en.json')
+    assert.equal(en.categories.Neutral, 'Plain')
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Vocabulary routes
+ *
+ * The categories, acquisitions and currencies a dye may use (see
+ * utils/vocabulary.ts). Categories and acquisitions are added, relabeled and
+ * removed here by editing their label in every locale file in one transaction.
+ * Writes require If-Match with the ETag from GET /api/vocabulary, so a term
+ * relabeled in another tab is not overwritten.
+ */
+
+import { Router, Request, Response } from 'express'
+import { VocabularyTermSchema } from '../schemas.js'
+import { validateBody } from '../middleware/validation.js'
+import { writeLimiter } from '../middleware/rateLimiting.js'
+import { withWriteLock } from '../middleware/writeLock.js'
+import { Logger } from '../utils/logger.js'
+import { localeWrite, readDataSet } from '../utils/dataFiles.js'
+import type { LocaleCode } from '../utils/dataFiles.js'
+import { applyMutation, previewMutation } from '../utils/mutation.js'
+import { isDryRun } from '../utils/request.js'
+import { checkIfMatch } from '../utils/etag.js'
+import {
+  isVocabularyKind,
+  readVocabulary,
+  removeTerm,
+  setTermLabels,
+  termDyeCount,
+  vocabularyEtag,
+} from '../utils/vocabulary.js'
+import type { VocabularyKind } from '../utils/vocabulary.js'
+import { sendWriteError } from '../utils/writeErrors.js'
+
+export const vocabularyRouter = Router()
+
+// Singular names for messages and history entries
+const KIND_NAMES: Record<VocabularyKind, string> = {
+  categories: 'category',
+  acquisitions: 'acquisition',
+}
+
+/**
+ * Parse the :kind and :key route parameters
+ *
+ * @returns The vocabulary kind and term, or null after sending a 400
+ */
+function parseTermParams(req: Request, res: Response): { kind: VocabularyKind; key: string } | null {
+  const { kind } = req.params
+  const key = req.params.key.trim()
+  if (!isVocabularyKind(kind)) {
+    res.status(400).json({ success: false, error: 'Invalid vocabulary kind' })
+    return null
+  }
+  if (key.length === 0 || key.length > 100) {
+    res.status(400).json({ success: false, error: 'Invalid term' })
+    return null
+  }
+  return { kind, key }
+}
+
+// GET /api/vocabulary - Categories and acquisitions (with their labels), currencies and pricing
+// The ETag header identifies this version of the labels for If-Match on later writes
+vocabularyRouter.get('/', async (req, res) => {
+  try {
+    const vocabulary = readVocabulary(await readDataSet())
+    res.setHeader('ETag', vocabularyEtag(vocabulary))
+    res.json(vocabulary)
+  } catch (error) {
+    Logger.error('Error reading vocabulary', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to read vocabulary' })
+  }
+})
+
+// PUT /api/vocabulary/:kind/:key - Add a category/acquisition or change its labels
+// Only the locale files whose label changes are rewritten
+// Requires If-Match (409 if the vocabulary changed since it was loaded); returns the new ETag
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+// SECURITY: Input validation with Zod schema
+vocabularyRouter.put(
+  '/:kind/:key',
+  writeLimiter,
+  validateBody(VocabularyTermSchema),
+  withWriteLock(async (req, res) => {
+    const params = parseTermParams(req, res)
+    if (!params) return
+    const { kind, key } = params
+    const labels = req.body.labels as Partial<Record<LocaleCode, string>>
+
+    try {
+      const dataSet = await readDataSet()
+      const currentEtag = vocabularyEtag(readVocabulary(dataSet))
+      const isNew = !(key in (dataSet.locales.en[kind] ?? {}))
+      const changed = setTermLabels(dataSet.locales, kind, key, labels)
+
+      const writes = changed.map((code) => localeWrite(code, dataSet.locales[code]))
+      const proceed = await checkIfMatch(req, res, 'Vocabulary', currentEtag, async () => ({
+        files: await previewMutation(writes),
+      }))
+      if (!proceed) return
+
+      if (isDryRun(req)) {
+        return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+      }
+
+      if (writes.length > 0) {
+        await applyMutation(writes, {
+          reason: `${isNew ? 'Add' : 'Relabel'} ${KIND_NAMES[kind]} "${key}"`,
+          requestId: req.requestId,
+          sessionId: req.sessionId,
+        })
+      }
+      res.setHeader('ETag', vocabularyEtag(readVocabulary(dataSet)))
+      res.status(isNew ? 201 : 200).json({ success: true })
+    } catch (error) {
+      sendWriteError(req, res, error, `Failed to save ${KIND_NAMES[kind]}`)
+    }
+  })
+)
+
+// DELETE /api/vocabulary/:kind/:key - Remove an unused category/acquisition from every locale file
+// 409 while any dye still uses it; requires If-Match (409 if the vocabulary changed since it was loaded)
+// SECURITY: Rate limit write operations (30 requests / 1 minute)
+vocabularyRouter.delete('/:kind/:key', writeLimiter, withWriteLock(async (req, res) => {
+  const params = parseTermParams(req, res)
+  if (!params) return
+  const { kind, key } = params
+
+  try {
+    const dataSet = await readDataSet()
+    const currentEtag = vocabularyEtag(readVocabulary(dataSet))
+    const dyeCount = termDyeCount(dataSet, kind, key)
+    if (dyeCount > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `${dyeCount} dye(s) still use this ${KIND_NAMES[kind]}`,
+      })
+    }
+
+    const changed = removeTerm(dataSet.locales, kind, key)
+    if (changed.length === 0) {
+      return res.status(404).json({ success: false, error: `Unknown ${KIND_NAMES[kind]}` })
+    }
+
+    const writes = changed.map((code) => localeWrite(code, dataSet.locales[code]))
+    const proceed = await checkIfMatch(req, res, 'Vocabulary', currentEtag, async () => ({
+      files: await previewMutation(writes),
+    }))
+    if (!proceed) return
+
+    if (isDryRun(req)) {
+      return res.json({ success: true, dryRun: true, files: await previewMutation(writes) })
+    }
+
+    await applyMutation(writes, {
+      reason: `Remove ${KIND_NAMES[kind]} "${key}"`,
+      requestId: req.requestId,
+      sessionId: req.sessionId,
+    })
+    res.setHeader('ETag', vocabularyEtag(readVocabulary(dataSet)))
+    res.json({ success: true })
+  } catch (error) {
+    sendWriteError(req, res, error, `Failed to remove ${KIND_NAMES[kind]}`)
+  }
+}))
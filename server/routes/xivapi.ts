@@ -0,0 +1,105 @@
+/**
+ * XIVAPI routes
+ *
+ * Item names and dye searches from XIVAPI, looked up by the server and cached
+ * on disk (see utils/xivapi.ts), so the browser never calls XIVAPI directly.
+ */
+
+import { Router } from 'express'
+import { Logger } from '../utils/logger.js'
+import { readDataSet } from '../utils/dataFiles.js'
+import { parseItemId } from '../utils/dyeData.js'
+import { XIVAPI_LANGUAGES, xivapi } from '../utils/xivapi.js'
+import { XivapiUnavailableError } from '../xivapi/XivapiClient.js'
+
+export const xivapiRouter = Router()
+
+// Results returned by a search
+const SEARCH_LIMIT = 20
+
+// GET /api/xivapi - Offline mode, cache TTL and cached entries per language
+xivapiRouter.get('/', async (req, res) => {
+  try {
+    res.json(await xivapi.status())
+  } catch (error) {
+    Logger.error('Error reading XIVAPI cache', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to read XIVAPI cache' })
+  }
+})
+
+// GET /api/xivapi/search?q=white - Dye items whose name contains `q` in any XIVAPI language
+// Each result has its names, icon URL and whether colors_xiv.json already has it
+// 503 if XIVAPI cannot be reached (or offline mode is on) and the search is not cached
+xivapiRouter.get('/search', async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+  if (query.length < 2 || query.length > 100) {
+    return res.status(400).json({ success: false, error: 'Search must be 2 to 100 characters' })
+  }
+
+  try {
+    const { results, source } = await xivapi.searchDyes(query, XIVAPI_LANGUAGES, SEARCH_LIMIT)
+    const existing = new Set((await readDataSet()).dyes.map((dye) => dye.itemID))
+
+    res.json({
+      query,
+      results: results.map((result) => ({
+        itemId: result.itemId,
+        names: result.names,
+        iconUrl: result.icon ? xivapi.iconUrl(result.icon) : null,
+        exists: existing.has(result.itemId),
+      })),
+      source,
+      offline: xivapi.offline,
+    })
+  } catch (error) {
+    if (error instanceof XivapiUnavailableError) {
+      return res.status(503).json({ success: false, error: `XIVAPI unavailable: ${error.message}` })
+    }
+    Logger.error('Error searching XIVAPI', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to search items' })
+  }
+})
+
+// GET /api/xivapi/:itemId?languages=en,ja - An item's names (dye prefix not stripped)
+// Languages default to every language XIVAPI serves; failures are listed in `errors`
+xivapiRouter.get('/:itemId', async (req, res) => {
+  const itemId = parseItemId(req.params.itemId)
+  if (itemId === null) {
+    return res.status(400).json({ success: false, error: 'Invalid item ID' })
+  }
+
+  const languages =
+    typeof req.query.languages === 'string' && req.query.languages !== ''
+      ? req.query.languages.split(',')
+      : XIVAPI_LANGUAGES
+  if (!languages.every((language) => XIVAPI_LANGUAGES.includes(language))) {
+    return res.status(400).json({ success: false, error: 'Invalid language' })
+  }
+
+  try {
+    const { names, sources, errors } = await xivapi.getNames(itemId, languages)
+    res.json({ itemId, names, sources, errors, offline: xivapi.offline })
+  } catch (error) {
+    Logger.error('Error looking up XIVAPI names', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      itemId: req.params.itemId,
+      error: error instanceof Error ? error.message : String(error),
+      ip: req.ip,
+    })
+    res.status(500).json({ success: false, error: 'Failed to look up item names' })
+  }
+})
@@ -38,6 +38,8 @@ export const DyeSchema = z.object({
   isPastel: z.boolean(),
   isDark: z.boolean(),
   isCosmic: z.boolean(),
+  // Set on dyes retired from the game (kept for reference instead of deleted)
+  deprecated: z.boolean().optional(),
 })
 
 /**
@@ -91,3 +93,123 @@ export const LocaleDataSchema = z.object({
   grandCompanies: z.record(z.string(), z.string()).optional(),
   metallicDyeIds: z.array(z.number().int().positive()).optional(),
 })
+
+/**
+ * Locale Names Schema
+ * Validates the per-locale dye names submitted alongside a dye
+ * (English is required, other locales may be left blank)
+ */
+export const LocaleNamesSchema = z.object({
+  en: z.string().min(1).max(200),
+  ja: z.string().max(200),
+  de: z.string().max(200),
+  fr: z.string().max(200),
+  ko: z.string().max(200),
+  zh: z.string().max(200),
+})
+
+/**
+ * Dye Input Schema
+ * The fields of a dye a client may set; rgb and hsv are always derived from
+ * hex on the server (any submitted values are dropped)
+ */
+export const DyeInputSchema = DyeSchema.omit({ rgb: true, hsv: true })
+
+/**
+ * Dye Record Input Schema
+ * Validates a complete dye with its localized names
+ * (POST /api/dyes, PUT /api/dyes/:itemId and each bulk import row)
+ */
+export const DyeRecordInputSchema = z.object({
+  dye: DyeInputSchema,
+  localeNames: LocaleNamesSchema,
+})
+
+/**
+ * Dye Patch Schema
+ * Validates a partial update (PATCH /api/dyes/:itemId); omitted fields and
+ * locale names keep their current values
+ */
+export const DyePatchSchema = z.object({
+  dye: DyeInputSchema.omit({ itemID: true }).partial().optional(),
+  localeNames: LocaleNamesSchema.partial().optional(),
+})
+
+/**
+ * Dye Import Schema
+ * Validates a bulk import request (POST /api/dyes/import)
+ * (each record is checked against DyeRecordInputSchema individually so errors can
+ * be reported per row)
+ */
+export const DyeImportSchema = z.object({
+  records: z.array(z.unknown()).min(1).max(500),
+})
+
+/**
+ * Dye Deprecation Schema
+ * Validates a soft-delete toggle (POST /api/dyes/:itemId/deprecate)
+ */
+export const DyeDeprecationSchema = z.object({
+  deprecated: z.boolean(),
+})
+
+/**
+ * Integrity Fix Schema
+ * Validates a one-click integrity fix request (POST /api/integrity/fix)
+ * (only issue kinds with an automatic fix are accepted; orphan-locale-name
+ * deletes the orphaned names)
+ */
+export const IntegrityFixSchema = z.object({
+  code: z.enum(['color-mismatch', 'orphan-locale-name', 'dye-count-mismatch', 'metallic-mismatch']),
+})
+
+/**
+ * Target Switch Schema
+ * Validates a core target switch (PUT /api/targets/active)
+ */
+export const TargetSwitchSchema = z.object({
+  name: z.string().min(1).max(32),
+})
+
+/**
+ * Git Commit Schema
+ * Validates a data file commit (POST /api/git/commit)
+ */
+export const GitCommitSchema = z.object({
+  message: z.string().trim().min(1).max(5000),
+  branch: z.string().trim().min(1).max(100).optional(),
+})
+
+/**
+ * Vocabulary Term Schema
+ * Validates the labels of a category or acquisition (PUT /api/vocabulary/:kind/:key)
+ * (English is required, other locales may be left blank)
+ */
+export const VocabularyTermSchema = z.object({
+  labels: z.object({
+    en: z.string().trim().min(1).max(100),
+    ja: z.string().max(100).optional(),
+    de: z.string().max(100).optional(),
+    fr: z.string().max(100).optional(),
+    ko: z.string().max(100).optional(),
+    zh: z.string().max(100).optional(),
+  }),
+})
+
+/**
+ * Audit Query Schema
+ * Validates the filters of GET /api/audit (query string values)
+ */
+export const AuditQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  level: z.enum(['DEBUG', 'INFO', 'WARN', 'ERROR', 'AUDIT']).optional(),
+  itemId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+})
+
+export type Dye = z.infer<typeof DyeSchema>
+export type DyeInput = z.infer<typeof DyeInputSchema>
+export type DyePatch = z.infer<typeof DyePatchSchema>
+export type LocaleData = z.infer<typeof LocaleDataSchema>
+export type LocaleNames = z.infer<typeof LocaleNamesSchema>
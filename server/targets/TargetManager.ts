@@ -0,0 +1,126 @@
+import path from 'path'
+import type { DyeSortKey } from '../utils/canonicalJson.js'
+import { validateBasePaths } from '../utils/pathValidation.js'
+
+/**
+ * A copy of xivdyetools-core the maintainer can edit
+ * (main checkout, release worktree, fixtures copy, ...)
+ */
+export interface CoreTarget {
+  /** Identifier used by the API and UI */
+  name: string
+  /** Optional human-readable description */
+  label?: string
+  /** Absolute path to the xivdyetools-core directory (never sent to clients) */
+  corePath: string
+  /** Order colors_xiv.json is written in */
+  dyeSort: DyeSortKey
+  /** Currencies and pricing (categories and acquisitions come from the locale files) */
+  vocabulary: VocabularyConfig
+}
+
+/**
+ * The parts of the dye vocabulary that are not stored in the core data files
+ */
+export interface VocabularyConfig {
+  /** Currencies a priced dye may use */
+  currencies: string[]
+  /** Acquisitions that have a price, with the currency preselected for each */
+  pricedAcquisitions: Record<string, string>
+}
+
+/**
+ * Target as returned to the client (path omitted)
+ */
+export interface CoreTargetSummary {
+  name: string
+  label?: string
+  active: boolean
+}
+
+/**
+ * Data file locations inside a core checkout
+ */
+export function targetColorsPath(target: CoreTarget): string {
+  return path.join(target.corePath, 'src/data/colors_xiv.json')
+}
+
+export function targetLocalesPath(target: CoreTarget): string {
+  return path.join(target.corePath, 'src/data/locales')
+}
+
+/**
+ * TargetManager
+ *
+ * Holds the configured core targets and which one is active. Every data file
+ * path is resolved against the active target, so switching targets redirects
+ * all reads and writes. A target's paths are re-validated before it becomes
+ * active; a failed switch leaves the current target in place.
+ */
+export class TargetManager {
+  private activeName: string
+
+  constructor(
+    private readonly targets: CoreTarget[],
+    activeName: string
+  ) {
+    if (!this.find(activeName)) {
+      throw new Error(`Unknown core target: ${activeName}`)
+    }
+    this.activeName = activeName
+  }
+
+  private find(name: string): CoreTarget | undefined {
+    return this.targets.find((target) => target.name === name)
+  }
+
+  /**
+   * Get the active target
+   */
+  active(): CoreTarget {
+    return this.find(this.activeName)!
+  }
+
+  /**
+   * Check whether a target is configured
+   */
+  has(name: string): boolean {
+    return this.find(name) !== undefined
+  }
+
+  /**
+   * List configured targets without their paths
+   */
+  list(): CoreTargetSummary[] {
+    return this.targets.map((target) => ({
+      name: target.name,
+      label: target.label,
+      active: target.name === this.activeName,
+    }))
+  }
+
+  /**
+   * Validate a target's paths
+   *
+   * @throws Error if the data files are missing or not writable
+   */
+  async validate(name: string): Promise<void> {
+    const target = this.find(name)
+    if (!target) {
+      throw new Error(`Unknown core target: ${name}`)
+    }
+    await validateBasePaths(target.corePath, targetColorsPath(target), targetLocalesPath(target))
+  }
+
+  /**
+   * Make a target active after validating its paths
+   *
+   * @param name - Target to activate
+   * @throws Error if the target is unknown or fails validation
+   */
+  async switchTo(name: string): Promise<CoreTarget> {
+    await this.validate(name)
+    this.activeName = name
+    return this.active()
+  }
+}
@@ -0,0 +1,71 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type { AddressInfo } from 'net'
+import type { Express } from 'express'
+
+/**
+ * Test helpers
+ *
+ * Tests run against a scratch copy of the fixture core (three dyes, six
+ * locale files) in a temp directory. The server reads its configuration when
+ * its modules are first imported, so call useScratchCore() before importing
+ * anything from server/ (with `await import(...)`).
+ */
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const FIXTURE_CORE = path.join(__dirname, 'fixtures/core')
+
+/**
+ * Copy the fixture core to a temp directory and point the server at it
+ *
+ * Backups, the audit log and the XIVAPI cache are kept in the same directory.
+ *
+ * @returns The temp directory and the scratch core path
+ */
+export async function useScratchCore(): Promise<{ root: string; corePath: string }> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'maintainer-test-'))
+  const corePath = path.join(root, 'core')
+  await fs.cp(FIXTURE_CORE, corePath, { recursive: true })
+
+  process.env.CORE_PATH = corePath
+  process.env.BACKUP_DIR = path.join(root, 'backups')
+  process.env.AUDIT_LOG_DIR = path.join(root, 'logs')
+  process.env.XIVAPI_CACHE_DIR = path.join(root, 'xivapi')
+  process.env.XIVAPI_OFFLINE = 'true'
+
+  return { root, corePath }
+}
+
+/**
+ * Read a JSON file of the scratch core
+ *
+ * @param corePath - Scratch core path
+ * @param name - Path relative to the data directory (e.g. "locales/en.json")
+ */
+export async function readCoreFile<T>(corePath: string, name: string): Promise<T> {
+  return JSON.parse(await fs.readFile(path.join(corePath, 'src/data', name), 'utf-8')) as T
+}
+
+/**
+ * Start an app on a free local port
+ *
+ * @returns Base URL of the app and a function that stops it
+ */
+export async function listen(app: Express): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = app.listen(0, '127.0.0.1')
+  await new Promise((resolve) => server.once('listening', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve())
+        server.closeAllConnections()
+      }),
+  }
+}
@@ -0,0 +1,160 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { RotatingFileSink } from '../audit/RotatingFileSink.js'
+import type { FileChange } from '../history/HistoryManager.js'
+import { LogLevel } from './logger.js'
+import type { LogEntry } from './logger.js'
+
+/**
+ * Persistent audit log
+ *
+ * AUDIT, WARN and ERROR entries are appended as JSON lines to `logs/audit.log`
+ * (rotated by size), so the audit trail outlives the terminal the server ran
+ * in. Each mutation adds an entry with its request ID, session, affected item
+ * IDs and a per-file summary of what changed.
+ */
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+// Log location and retention (configurable via environment)
+const AUDIT_LOG_DIR = process.env.AUDIT_LOG_DIR
+  ? path.resolve(process.env.AUDIT_LOG_DIR)
+  : path.resolve(__dirname, '../../logs')
+const AUDIT_LOG_MAX_BYTES = parseInt(process.env.AUDIT_LOG_MAX_BYTES || String(5 * 1024 * 1024), 10)
+const AUDIT_LOG_FILES = parseInt(process.env.AUDIT_LOG_FILES || '5', 10)
+
+// Create singleton audit log sink (registered with the Logger at startup)
+export const auditLog = new RotatingFileSink({
+  directory: AUDIT_LOG_DIR,
+  baseName: 'audit',
+  maxBytes: AUDIT_LOG_MAX_BYTES,
+  maxFiles: AUDIT_LOG_FILES,
+  levels: [LogLevel.AUDIT, LogLevel.WARN, LogLevel.ERROR],
+})
+
+/**
+ * Old and new value of one field
+ */
+export interface FieldChange {
+  before: unknown
+  after: unknown
+}
+
+/**
+ * What one operation changed in one data file
+ */
+export interface FileChangeSummary {
+  file: string
+  dyeCount: { before: number; after: number }
+  added: number[]
+  removed: number[]
+  /** Changed dyes with each changed field ("name" for locale files) */
+  updated: Array<{ itemID: number; fields: Record<string, FieldChange> }>
+}
+
+/**
+ * Index a data file's dyes by item ID
+ * (colors_xiv.json entries, or `{ name }` from a locale file's dyeNames)
+ */
+function dyesById(contents: unknown): Map<number, Record<string, unknown>> {
+  const byId = new Map<number, Record<string, unknown>>()
+
+  if (Array.isArray(contents)) {
+    for (const dye of contents as Array<Record<string, unknown>>) {
+      if (typeof dye?.itemID === 'number') {
+        byId.set(dye.itemID, dye)
+      }
+    }
+  } else if (contents && typeof contents === 'object' && 'dyeNames' in contents) {
+    for (const [key, name] of Object.entries(contents.dyeNames as Record<string, string>)) {
+      byId.set(Number(key), { name })
+    }
+  }
+  return byId
+}
+
+/**
+ * Summarize the changes an operation made to each file
+ *
+ * @param changes - Before/after contents of every written file
+ * @returns One summary per file, and every item ID added, removed or updated
+ */
+export function summarizeChanges(changes: FileChange[]): {
+  files: FileChangeSummary[]
+  itemIds: number[]
+} {
+  const itemIds = new Set<number>()
+
+  const files = changes.map((change) => {
+    const before = dyesById(change.before)
+    const after = dyesById(change.after)
+    const summary: FileChangeSummary = {
+      file: change.name,
+      dyeCount: { before: before.size, after: after.size },
+      added: [...after.keys()].filter((id) => !before.has(id)),
+      removed: [...before.keys()].filter((id) => !after.has(id)),
+      updated: [],
+    }
+
+    for (const [itemID, current] of after) {
+      const previous = before.get(itemID)
+      if (!previous) continue
+
+      const fields: Record<string, FieldChange> = {}
+      for (const key of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+        if (JSON.stringify(previous[key]) !== JSON.stringify(current[key])) {
+          fields[key] = { before: previous[key], after: current[key] }
+        }
+      }
+      if (Object.keys(fields).length > 0) {
+        summary.updated.push({ itemID, fields })
+      }
+    }
+
+    for (const id of [...summary.added, ...summary.removed, ...summary.updated.map((u) => u.itemID)]) {
+      itemIds.add(id)
+    }
+    return summary
+  })
+
+  return { files, itemIds: [...itemIds].sort((a, b) => a - b) }
+}
+
+/**
+ * Filter for reading the audit log
+ */
+export interface AuditQuery {
+  /** Earliest timestamp (ISO 8601, inclusive) */
+  from?: string
+  /** Latest timestamp (ISO 8601, inclusive) */
+  to?: string
+  level?: LogLevel
+  /** Only entries listing this item ID in `itemIds` */
+  itemId?: number
+  /** Maximum number of entries returned */
+  limit: number
+}
+
+/**
+ * Read matching audit log entries, newest first
+ *
+ * @returns Up to `limit` entries, and how many matched in total
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<{ entries: LogEntry[]; total: number }> {
+  const from = query.from ? Date.parse(query.from) : -Infinity
+  const to = query.to ? Date.parse(query.to) : Infinity
+
+  const matches = (await auditLog.read()).filter((entry) => {
+    const time = Date.parse(entry.timestamp)
+    if (time < from || time > to) return false
+    if (query.level && entry.level !== query.level) return false
+    if (query.itemId !== undefined) {
+      return Array.isArray(entry.itemIds) && entry.itemIds.includes(query.itemId)
+    }
+    return true
+  })
+
+  matches.reverse()
+  return { entries: matches.slice(0, query.limit), total: matches.length }
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Dye, LocaleData } from '../schemas.js'
+import { canonicalDye, canonicalDyes, canonicalLocale } from './canonicalJson.js'
+
+function dye(itemID: number | null, category: string, h: number): Dye {
+  return {
+    itemID,
+    category,
+    name: `Dye ${itemID}`,
+    hex: '#ABCDEF',
+    acquisition: 'Dye Vendor',
+    price: null,
+    currency: null,
+    rgb: { r: 171, g: 205, b: 239 },
+    hsv: { h, s: 28.451882845188287, v: 93.72549019607843 },
+    isMetallic: false,
+    isPastel: false,
+    isDark: false,
+    isCosmic: false,
+  }
+}
+
+describe('canonical data files', () => {
+  it('writes dye keys in schema order, unknown keys last', () => {
+    const { hsv, rgb, itemID, ...rest } = dye(5729, 'Neutral', 210)
+    const scrambled = {
+      note: 'kept',
+      hsv,
+      ...rest,
+      rgb: { b: rgb.b, g: rgb.g, r: rgb.r },
+      itemID,
+      deprecated: false,
+    }
+
+    const result = canonicalDye(scrambled as Dye)
+    assert.deepEqual(Object.keys(result), [...Object.keys(dye(1, 'Neutral', 0)), 'note'])
+    assert.deepEqual(Object.keys(result.rgb), ['r', 'g', 'b'])
+    assert.equal(result.hex, '#abcdef')
+    assert.deepEqual(result.hsv, { h: 210, s: 28.45, v: 93.73 })
+    assert.equal('deprecated' in result, false)
+    assert.equal(canonicalDye({ ...scrambled, deprecated: true } as Dye).deprecated, true)
+  })
+
+  it('sorts dyes by item ID, entries without one last', () => {
+    const dyes = [dye(null, 'Neutral', 0), dye(30116, 'Neutral', 0), dye(5729, 'Special', 0)]
+    const sorted = canonicalDyes(dyes, 'itemID')
+    assert.deepEqual(sorted.map((entry) => entry.itemID), [5729, 30116, null])
+  })
+
+  it('sorts dyes by category in file order, then hue', () => {
+    const dyes = [
+      dye(1, 'Special', 90),
+      dye(2, 'Neutral', 200),
+      dye(3, 'Special', 30),
+      dye(4, 'Neutral', 10),
+    ]
+    const sorted = canonicalDyes(dyes, 'category-hue')
+    assert.deepEqual(sorted.map((entry) => entry.itemID), [3, 1, 4, 2])
+  })
+
+  it('writes locale keys in schema order and metallic IDs ascending', () => {
+    const localeData = {
+      metallicDyeIds: [30116, 5729],
+      dyeNames: { 30116: 'Silver', 5730: 'Ash', 5729: 'Snow' },
+      labels: { pastel: 'Pastel', dye: 'Dye', metallic: 'Metallic', dark: 'Dark' },
+      meta: { dyeCount: 3, generated: '2026-01-01T00:00:00.000Z', version: '1.0.0' },
+      locale: 'en',
+    } as unknown as LocaleData
+
+    const result = canonicalLocale(localeData)
+    assert.deepEqual(Object.keys(result), ['locale', 'meta', 'labels', 'dyeNames', 'metallicDyeIds'])
+    assert.deepEqual(Object.keys(result.meta), ['version', 'generated', 'dyeCount'])
+    assert.deepEqual(Object.keys(result.labels), ['dye', 'dark', 'metallic', 'pastel'])
+    assert.deepEqual(result.metallicDyeIds, [5729, 30116])
+  })
+})
@@ -0,0 +1,121 @@
+import { DyeSchema, LocaleDataSchema } from '../schemas.js'
+import type { Dye, LocaleData } from '../schemas.js'
+import { roundHsv } from './dyeColors.js'
+
+/**
+ * Canonical layout of the data files
+ *
+ * Every write of colors_xiv.json and the locale files goes through these
+ * helpers, so the same data always serializes to the same bytes and diffs in
+ * the core repository only show real changes:
+ *
+ * - Dye entries use the key order of `DyeSchema` (unknown keys follow in
+ *   their existing order), lowercase hex and HSV rounded to 2 decimals;
+ *   `deprecated` is only written when true
+ * - Dyes are sorted by the target's `dyeSort` key
+ * - Locale files use the key order of `LocaleDataSchema`, with `dyeNames`
+ *   sorted by item ID and `metallicDyeIds` ascending
+ */
+
+/**
+ * Orders colors_xiv.json can be kept in
+ *
+ * - `itemID`: ascending item ID (entries without one last)
+ * - `category-hue`: grouped by category, in the order the categories first
+ *   appear in the file, then by hue
+ */
+export const DYE_SORT_KEYS = ['itemID', 'category-hue'] as const
+
+export type DyeSortKey = (typeof DYE_SORT_KEYS)[number]
+
+const DYE_KEYS = Object.keys(DyeSchema.shape)
+const RGB_KEYS = Object.keys(DyeSchema.shape.rgb.shape)
+const LOCALE_KEYS = Object.keys(LocaleDataSchema.shape)
+const LOCALE_META_KEYS = Object.keys(LocaleDataSchema.shape.meta.shape)
+const LOCALE_LABEL_KEYS = Object.keys(LocaleDataSchema.shape.labels.shape)
+
+/**
+ * Copy an object with the given keys first and any others after them
+ */
+function withKeyOrder<T extends object>(value: T, keys: string[]): T {
+  const source = value as Record<string, unknown>
+  const result: Record<string, unknown> = {}
+  for (const key of [...keys, ...Object.keys(source)]) {
+    if (key in source && !(key in result)) {
+      result[key] = source[key]
+    }
+  }
+  return result as T
+}
+
+/**
+ * Compare dyes by item ID (entries without one sort last)
+ */
+function compareItemIds(a: Dye, b: Dye): number {
+  if (a.itemID === b.itemID) return 0
+  if (a.itemID === null) return 1
+  if (b.itemID === null) return -1
+  return a.itemID - b.itemID
+}
+
+/**
+ * Bring a colors_xiv.json entry into canonical form
+ *
+ * @param dye - Entry to normalize (not modified)
+ */
+export function canonicalDye(dye: Dye): Dye {
+  const values: Dye = {
+    ...dye,
+    hex: dye.hex.toLowerCase(),
+    rgb: withKeyOrder(dye.rgb, RGB_KEYS),
+    hsv: roundHsv(dye.hsv),
+  }
+  if (!values.deprecated) {
+    delete values.deprecated
+  }
+  return withKeyOrder(values, DYE_KEYS)
+}
+
+/**
+ * Bring the contents of colors_xiv.json into canonical form
+ *
+ * @param dyes - Entries to normalize (not modified)
+ * @param sortKey - Order to write the entries in
+ */
+export function canonicalDyes(dyes: Dye[], sortKey: DyeSortKey): Dye[] {
+  const entries = dyes.map(canonicalDye)
+
+  if (sortKey === 'category-hue') {
+    const categories = [...new Set(entries.map((dye) => dye.category))]
+    return entries.sort(
+      (a, b) =>
+        categories.indexOf(a.category) - categories.indexOf(b.category) ||
+        a.hsv.h - b.hsv.h ||
+        compareItemIds(a, b)
+    )
+  }
+  return entries.sort((a, b) => compareItemIds(a, b) || a.hex.localeCompare(b.hex))
+}
+
+/**
+ * Bring a locale file into canonical form
+ *
+ * @param localeData - Locale file contents to normalize (not modified)
+ */
+export function canonicalLocale(localeData: LocaleData): LocaleData {
+  const dyeNames: Record<string, string> = {}
+  for (const itemId of Object.keys(localeData.dyeNames).sort((a, b) => Number(a) - Number(b))) {
+    dyeNames[itemId] = localeData.dyeNames[itemId]
+  }
+
+  const values: LocaleData = {
+    ...localeData,
+    meta: withKeyOrder(localeData.meta, LOCALE_META_KEYS),
+    labels: withKeyOrder(localeData.labels, LOCALE_LABEL_KEYS),
+    dyeNames,
+  }
+  if (localeData.metallicDyeIds) {
+    values.metallicDyeIds = [...localeData.metallicDyeIds].sort((a, b) => a - b)
+  }
+  return withKeyOrder(values, LOCALE_KEYS)
+}
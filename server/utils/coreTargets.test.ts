@@ -0,0 +1,74 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import path from 'path'
+import { useScratchCore } from '../test/scratchCore.js'
+
+// Importing coreTargets.ts also loads the server's own targets
+const { root } = await useScratchCore()
+const { loadTargetManager } = await import('./coreTargets.js')
+
+describe('loadTargetManager', () => {
+  let configPath: string
+
+  before(async () => {
+    configPath = path.join(root, 'maintainer.config.json')
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        targets: [
+          { name: 'main', path: 'cores/main' },
+          { name: 'next', path: '/srv/next', dyeSort: 'itemID', vocabulary: { currencies: ['Gil'] } },
+        ],
+        defaultTarget: 'next',
+        dyeSort: 'category-hue',
+        vocabulary: { currencies: ['Gil', 'MGP'] },
+      })
+    )
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('reads the config file targets, with per-target settings over global ones', () => {
+    const manager = loadTargetManager(['--config', configPath], {})
+
+    assert.deepEqual(
+      manager.list().map((target) => [target.name, target.active]),
+      [
+        ['main', false],
+        ['next', true],
+      ]
+    )
+    const next = manager.active()
+    assert.equal(next.corePath, '/srv/next')
+    assert.equal(next.dyeSort, 'itemID')
+    assert.deepEqual(next.vocabulary.currencies, ['Gil'])
+    assert.equal(next.vocabulary.pricedAcquisitions['Dye Vendor'], 'Gil')
+
+    const main = loadTargetManager(['--config', configPath, '--target', 'main'], {}).active()
+    assert.equal(main.corePath, path.join(root, 'cores/main'))
+    assert.equal(main.dyeSort, 'category-hue')
+    assert.deepEqual(main.vocabulary.currencies, ['Gil', 'MGP'])
+  })
+
+  it('puts an explicit core path first and makes it active', () => {
+    const env = { MAINTAINER_CONFIG: configPath, CORE_PATH: '/srv/env' }
+
+    const fromEnv = loadTargetManager([], env)
+    assert.deepEqual(fromEnv.list().map((target) => target.name), ['default', 'main', 'next'])
+    assert.equal(fromEnv.active().corePath, '/srv/env')
+
+    // The command line wins over the environment, --target over both
+    assert.equal(loadTargetManager(['--core-path=/srv/cli'], env).active().corePath, '/srv/cli')
+    assert.equal(loadTargetManager(['--target', 'main'], env).active().name, 'main')
+  })
+
+  it('rejects an unknown target', () => {
+    assert.throws(
+      () => loadTargetManager(['--config', configPath], { CORE_TARGET: 'missing' }),
+      /Unknown core target: missing/
+    )
+  })
+})
@@ -0,0 +1,163 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { z } from 'zod'
+import { TargetManager } from '../targets/TargetManager.js'
+import type { CoreTarget, VocabularyConfig } from '../targets/TargetManager.js'
+import { DYE_SORT_KEYS } from './canonicalJson.js'
+
+/**
+ * Core target configuration
+ *
+ * Targets come from (highest priority first):
+ * 1. `--core-path <dir>` on the command line, or the CORE_PATH environment variable
+ *    (registered as the target "default")
+ * 2. The `targets` list in maintainer.config.json (or the file named by
+ *    `--config <file>` / MAINTAINER_CONFIG); relative paths are resolved
+ *    against the config file's directory
+ * 3. The sibling checkout ../xivdyetools-core, if nothing else is configured
+ *
+ * The initial target is `--target <name>` / CORE_TARGET, then the config
+ * file's `defaultTarget`, then the first target.
+ *
+ * colors_xiv.json is kept sorted by item ID unless the config file sets
+ * `dyeSort` (for all targets, or per target). Currencies and priced
+ * acquisitions default to the game's current ones unless the config file sets
+ * `vocabulary` (likewise for all targets, or per target).
+ */
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+// Repository root of the maintainer tool
+const ROOT_PATH = path.resolve(__dirname, '../..')
+
+// Sibling checkout used when nothing is configured
+const DEFAULT_CORE_PATH = path.resolve(ROOT_PATH, '../xivdyetools-core')
+
+// Currencies and pricing used when the config file does not set them
+const DEFAULT_VOCABULARY: VocabularyConfig = {
+  currencies: ['Gil', 'Cosmocredits'],
+  pricedAcquisitions: {
+    'Dye Vendor': 'Gil',
+    'Ixali Vendor': 'Gil',
+    Mogstation: 'Gil',
+    'Cosmic Exploration': 'Cosmocredits',
+    'Cosmic Fortunes': 'Cosmocredits',
+  },
+}
+
+const TargetNameSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/i, 'Target names may only contain letters, digits, - and _')
+
+const VocabularyConfigSchema = z.object({
+  currencies: z.array(z.string().min(1).max(50)).min(1).optional(),
+  pricedAcquisitions: z.record(z.string().min(1).max(100), z.string().min(1).max(50)).optional(),
+})
+
+const ConfigFileSchema = z.object({
+  targets: z
+    .array(
+      z.object({
+        name: TargetNameSchema,
+        label: z.string().max(100).optional(),
+        path: z.string().min(1),
+        dyeSort: z.enum(DYE_SORT_KEYS).optional(),
+        vocabulary: VocabularyConfigSchema.optional(),
+      })
+    )
+    .optional(),
+  defaultTarget: TargetNameSchema.optional(),
+  dyeSort: z.enum(DYE_SORT_KEYS).optional(),
+  vocabulary: VocabularyConfigSchema.optional(),
+})
+
+/**
+ * Fill in the vocabulary settings a config block leaves out
+ */
+function resolveVocabulary(
+  config: z.infer<typeof VocabularyConfigSchema> | undefined,
+  fallback: VocabularyConfig
+): VocabularyConfig {
+  return {
+    currencies: config?.currencies ?? fallback.currencies,
+    pricedAcquisitions: config?.pricedAcquisitions ?? fallback.pricedAcquisitions,
+  }
+}
+
+/**
+ * Read `--name value` / `--name=value` from the command line
+ */
+function cliOption(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1]
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Build the target manager from the command line, environment and config file
+ *
+ * @throws Error if the config file is invalid or names an unknown target
+ */
+export function loadTargetManager(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TargetManager {
+  const targets: CoreTarget[] = []
+
+  const configOption = cliOption(argv, 'config') ?? env.MAINTAINER_CONFIG
+  const configPath = configOption
+    ? path.resolve(configOption)
+    : path.join(ROOT_PATH, 'maintainer.config.json')
+
+  let config: z.infer<typeof ConfigFileSchema> = {}
+  if (configOption || fs.existsSync(configPath)) {
+    const parsed = ConfigFileSchema.safeParse(JSON.parse(fs.readFileSync(configPath, 'utf-8')))
+    if (!parsed.success) {
+      throw new Error(`Invalid config file ${configPath}: ${parsed.error.issues[0].message}`)
+    }
+    config = parsed.data
+  }
+  const dyeSort = config.dyeSort ?? 'itemID'
+  const vocabulary = resolveVocabulary(config.vocabulary, DEFAULT_VOCABULARY)
+
+  const explicitPath = cliOption(argv, 'core-path') ?? env.CORE_PATH
+  if (explicitPath) {
+    targets.push({ name: 'default', corePath: path.resolve(explicitPath), dyeSort, vocabulary })
+  }
+
+  for (const target of config.targets ?? []) {
+    if (targets.some((existing) => existing.name === target.name)) {
+      throw new Error(`Duplicate core target name: ${target.name}`)
+    }
+    targets.push({
+      name: target.name,
+      label: target.label,
+      corePath: path.resolve(path.dirname(configPath), target.path),
+      dyeSort: target.dyeSort ?? dyeSort,
+      vocabulary: resolveVocabulary(target.vocabulary, vocabulary),
+    })
+  }
+
+  if (targets.length === 0) {
+    targets.push({ name: 'default', corePath: DEFAULT_CORE_PATH, dyeSort, vocabulary })
+  }
+
+  const activeName =
+    cliOption(argv, 'target') ??
+    env.CORE_TARGET ??
+    (explicitPath ? 'default' : config.defaultTarget) ??
+    targets[0].name
+
+  return new TargetManager(targets, activeName)
+}
+
+// Create singleton target manager instance
+export const targetManager = loadTargetManager()
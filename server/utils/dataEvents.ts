@@ -0,0 +1,21 @@
+import { DataWatcher } from '../events/DataWatcher.js'
+import { targetManager } from './coreTargets.js'
+import { dataFiles } from './dataFiles.js'
+
+/**
+ * Change notifications for the core data files
+ *
+ * One watcher follows the active target; GET /api/events streams its events
+ * to the browser so open views can reload when the files change underneath
+ * them (edits outside the tool, git checkouts, writes from another tab).
+ */
+
+// Create singleton data watcher instance
+export const dataWatcher = new DataWatcher()
+
+/**
+ * Watch the active core target's data files (call after every target switch)
+ */
+export async function watchActiveTarget(): Promise<void> {
+  await dataWatcher.watch(targetManager.active().name, dataFiles())
+}
@@ -0,0 +1,205 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { DyeArraySchema, LocaleDataSchema } from '../schemas.js'
+import type { Dye, LocaleData } from '../schemas.js'
+import { targetLocalesPath, targetColorsPath } from '../targets/TargetManager.js'
+import { canonicalDyes, canonicalLocale } from './canonicalJson.js'
+import { targetManager } from './coreTargets.js'
+import { contentEtag } from './etag.js'
+import { serializeJson, writeFileAtomic } from './transaction.js'
+import type { FileWrite } from './transaction.js'
+
+/**
+ * Data file locations and I/O helpers for xivdyetools-core
+ *
+ * Centralizes the paths to `colors_xiv.json` and the locale files so that
+ * every route reads and writes them the same way. Paths are resolved against
+ * the active core target on every call, so they follow target switches.
+ */
+
+/**
+ * Path to the active xivdyetools-core directory
+ */
+export function getCorePath(): string {
+  return targetManager.active().corePath
+}
+
+/**
+ * Path to colors_xiv.json in the active target
+ */
+export function getColorsPath(): string {
+  return targetColorsPath(targetManager.active())
+}
+
+/**
+ * Path to the locales directory in the active target
+ */
+export function getLocalesPath(): string {
+  return targetLocalesPath(targetManager.active())
+}
+
+/**
+ * Name of colors_xiv.json relative to the data directory
+ */
+export const COLORS_FILE_NAME = 'colors_xiv.json'
+
+/**
+ * Locale codes with a data file in the locales directory
+ */
+export const LOCALE_CODES = ['en', 'ja', 'de', 'fr', 'ko', 'zh'] as const
+
+export type LocaleCode = (typeof LOCALE_CODES)[number]
+
+/**
+ * Check whether a string is a supported locale code
+ *
+ * @param code - Value to check (typically a route parameter)
+ * @returns true if the code has a locale file
+ */
+export function isLocaleCode(code: string): code is LocaleCode {
+  return (LOCALE_CODES as readonly string[]).includes(code)
+}
+
+/**
+ * Resolve the path of a locale file
+ *
+ * @param code - Locale code
+ * @returns Absolute path to `locales/<code>.json`
+ */
+export function getLocalePath(code: LocaleCode): string {
+  return path.join(getLocalesPath(), `${code}.json`)
+}
+
+/**
+ * Read and parse a JSON file
+ *
+ * @param filePath - Absolute path to the file
+ * @returns Parsed file contents
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T> {
+  const data = await fs.readFile(filePath, 'utf-8')
+  return JSON.parse(data) as T
+}
+
+/**
+ * Read and parse a JSON file along with its entity tag
+ *
+ * @param filePath - Absolute path to the file
+ * @returns Parsed contents and the ETag of the bytes they were parsed from
+ */
+export async function readVersionedJsonFile<T>(filePath: string): Promise<{ data: T; etag: string }> {
+  const contents = await fs.readFile(filePath, 'utf-8')
+  return { data: JSON.parse(contents) as T, etag: contentEtag(contents) }
+}
+
+/**
+ * Write a JSON file with consistent formatting
+ *
+ * Writes atomically (temp file + rename) so a crash never leaves a truncated file.
+ *
+ * @param filePath - Absolute path to the file
+ * @param data - Data to serialize
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await writeFileAtomic(filePath, serializeJson(data))
+}
+
+/**
+ * In-memory copy of colors_xiv.json and every locale file
+ */
+export interface DataSet {
+  dyes: Dye[]
+  locales: Record<LocaleCode, LocaleData>
+}
+
+/**
+ * Read colors_xiv.json and all locale files
+ *
+ * @returns The full data set, ready to be mutated and committed
+ */
+export async function readDataSet(): Promise<DataSet> {
+  const dyes = await readJsonFile<Dye[]>(getColorsPath())
+  const locales = {} as Record<LocaleCode, LocaleData>
+  for (const code of LOCALE_CODES) {
+    locales[code] = await readJsonFile<LocaleData>(getLocalePath(code))
+  }
+  return { dyes, locales }
+}
+
+/**
+ * Build the transaction write for colors_xiv.json
+ *
+ * The entries are written in canonical form, sorted by the active target's `dyeSort`.
+ *
+ * @param dyes - New contents of colors_xiv.json
+ */
+export function colorsWrite(dyes: Dye[]): FileWrite {
+  return {
+    filePath: getColorsPath(),
+    data: canonicalDyes(dyes, targetManager.active().dyeSort),
+    schema: DyeArraySchema,
+  }
+}
+
+/**
+ * Build the transaction write for a locale file (written in canonical form)
+ *
+ * @param code - Locale code
+ * @param localeData - New contents of the locale file
+ */
+export function localeWrite(code: LocaleCode, localeData: LocaleData): FileWrite {
+  return { filePath: getLocalePath(code), data: canonicalLocale(localeData), schema: LocaleDataSchema }
+}
+
+/**
+ * Build the transaction writes for a full data set
+ *
+ * @param dataSet - Data set to write back
+ */
+export function dataSetWrites(dataSet: DataSet): FileWrite[] {
+  return [
+    colorsWrite(dataSet.dyes),
+    ...LOCALE_CODES.map((code) => localeWrite(code, dataSet.locales[code])),
+  ]
+}
+
+/**
+ * Name of a locale file relative to the data directory
+ *
+ * @param code - Locale code
+ * @returns e.g. "locales/en.json"
+ */
+export function localeFileName(code: LocaleCode): string {
+  return `locales/${code}.json`
+}
+
+/**
+ * List every data file with its name relative to the data directory
+ *
+ * @returns colors_xiv.json followed by the six locale files
+ */
+export function dataFiles(): Array<{ name: string; filePath: string }> {
+  return [
+    { name: COLORS_FILE_NAME, filePath: getColorsPath() },
+    ...LOCALE_CODES.map((code) => ({ name: localeFileName(code), filePath: getLocalePath(code) })),
+  ]
+}
+
+/**
+ * Build the transaction write for a data file identified by relative name
+ *
+ * The contents are not canonicalized, so key and entry order are kept as
+ * given; they are re-serialized with serializeJson, though, so a restored
+ * backup matches the original bytes only if it was formatted the same way.
+ *
+ * @param name - Name relative to the data directory (see dataFiles)
+ * @param data - New contents of the file
+ * @returns The write, or null if the name is not a known data file
+ */
+export function writeForDataFile(name: string, data: unknown): FileWrite | null {
+  if (name === COLORS_FILE_NAME) {
+    return { filePath: getColorsPath(), data, schema: DyeArraySchema }
+  }
+  const code = LOCALE_CODES.find((c) => localeFileName(c) === name)
+  return code ? { filePath: getLocalePath(code), data, schema: LocaleDataSchema } : null
+}
@@ -0,0 +1,58 @@
+import { ColorService } from '@xivdyetools/core'
+import type { Dye } from '../schemas.js'
+
+/**
+ * Color values stored alongside each dye's hex
+ *
+ * colors_xiv.json keeps `rgb` and `hsv` next to `hex` for consumers that
+ * don't convert colors themselves. Writes always derive them here from the
+ * hex instead of trusting values sent by a client, and whole-file writes are
+ * refused if any entry disagrees with its hex.
+ */
+
+// Decimal places kept for HSV components (the editor preview shows the same)
+const HSV_DECIMALS = 2
+
+// HSV values are compared with this tolerance (older entries are unrounded)
+const HSV_TOLERANCE = 0.01
+
+/**
+ * Round HSV components the way written data is rounded
+ */
+export function roundHsv(hsv: Dye['hsv']): Dye['hsv'] {
+  return {
+    h: Number(hsv.h.toFixed(HSV_DECIMALS)),
+    s: Number(hsv.s.toFixed(HSV_DECIMALS)),
+    v: Number(hsv.v.toFixed(HSV_DECIMALS)),
+  }
+}
+
+/**
+ * Derive a dye's rgb and hsv from its hex
+ *
+ * @param hex - Color in #rrggbb form
+ */
+export function deriveColors(hex: string): Pick<Dye, 'rgb' | 'hsv'> {
+  return {
+    rgb: ColorService.hexToRgb(hex),
+    hsv: roundHsv(ColorService.hexToHsv(hex)),
+  }
+}
+
+/**
+ * Check whether a dye's stored rgb/hsv agree with its hex
+ * (rgb exactly, hsv within rounding tolerance)
+ */
+export function colorMatchesHex(dye: Dye): boolean {
+  const rgb = ColorService.hexToRgb(dye.hex)
+  const hsv = ColorService.hexToHsv(dye.hex)
+
+  return (
+    rgb.r === dye.rgb.r &&
+    rgb.g === dye.rgb.g &&
+    rgb.b === dye.rgb.b &&
+    Math.abs(hsv.h - dye.hsv.h) <= HSV_TOLERANCE &&
+    Math.abs(hsv.s - dye.hsv.s) <= HSV_TOLERANCE &&
+    Math.abs(hsv.v - dye.hsv.v) <= HSV_TOLERANCE
+  )
+}
@@ -0,0 +1,143 @@
+import type { Dye, DyeInput, LocaleData, LocaleNames } from '../schemas.js'
+import { canonicalDye } from './canonicalJson.js'
+import { LOCALE_CODES } from './dataFiles.js'
+import type { LocaleCode } from './dataFiles.js'
+import { deriveColors } from './dyeColors.js'
+
+/**
+ * Helpers for manipulating dye records and locale files in memory
+ *
+ * Routes load the data files, apply these helpers, and write the results back.
+ * Keeping the mutations here ensures every route updates `dyeNames`,
+ * `metallicDyeIds` and `meta` the same way.
+ */
+
+/**
+ * Parse an item ID route parameter
+ *
+ * @param value - Raw route parameter
+ * @returns The positive integer item ID, or null if invalid
+ */
+export function parseItemId(value: string): number | null {
+  const itemId = parseInt(value, 10)
+  if (isNaN(itemId) || itemId <= 0) {
+    return null
+  }
+  return itemId
+}
+
+/**
+ * Find the index of a dye by item ID
+ *
+ * @param dyes - Contents of colors_xiv.json
+ * @param itemId - Item ID to look for
+ * @returns Array index, or -1 if not found
+ */
+export function findDyeIndex(dyes: Dye[], itemId: number): number {
+  return dyes.findIndex((dye) => dye.itemID === itemId)
+}
+
+/**
+ * Build a new colors_xiv.json entry
+ *
+ * rgb/hsv are derived from hex and the entry is returned in canonical form
+ * (see canonicalJson.ts); any other submitted keys are kept.
+ *
+ * @param fields - Submitted fields (rgb/hsv, if present, are replaced)
+ */
+export function buildDye(fields: DyeInput & Record<string, unknown>): Dye {
+  return canonicalDye({ ...fields, ...deriveColors(fields.hex) })
+}
+
+/**
+ * Apply changed fields to an existing colors_xiv.json entry
+ *
+ * rgb/hsv are re-derived when the hex changes, and the result is in canonical
+ * form, so un-deprecating removes the `deprecated` key.
+ *
+ * @param current - The entry as it is in the file
+ * @param changes - Fields to change
+ */
+export function mergeDye(current: Dye, changes: Partial<DyeInput>): Dye {
+  const merged: Dye = { ...current, ...changes }
+  if (changes.hex !== undefined) {
+    Object.assign(merged, deriveColors(changes.hex))
+  }
+  return canonicalDye(merged)
+}
+
+/**
+ * Collect a dye's name from every locale file
+ *
+ * @param locales - Contents of all locale files
+ * @param itemId - Item ID of the dye (null yields blank names)
+ * @returns Name per locale ('' when missing)
+ */
+export function localeNamesFor(
+  locales: Record<LocaleCode, LocaleData>,
+  itemId: number | null
+): LocaleNames {
+  const localeNames = {} as LocaleNames
+  for (const code of LOCALE_CODES) {
+    localeNames[code] = itemId === null ? '' : locales[code].dyeNames[String(itemId)] ?? ''
+  }
+  return localeNames
+}
+
+/**
+ * Recompute the meta section of a locale file
+ *
+ * @param localeData - Locale file contents (mutated in place)
+ */
+export function refreshLocaleMeta(localeData: LocaleData): void {
+  localeData.meta.dyeCount = Object.keys(localeData.dyeNames).length
+  localeData.meta.generated = new Date().toISOString()
+}
+
+/**
+ * Write a dye's localized name into a locale file
+ *
+ * Also keeps `metallicDyeIds` (when the locale file has it) in sync with the
+ * dye's `isMetallic` flag, and refreshes the meta section.
+ *
+ * @param localeData - Locale file contents (mutated in place)
+ * @param dye - The dye being written (must have an item ID)
+ * @param name - Localized name for this locale
+ */
+export function setLocaleDyeName(localeData: LocaleData, dye: Dye, name: string): void {
+  if (dye.itemID === null) {
+    return
+  }
+
+  localeData.dyeNames[String(dye.itemID)] = name
+
+  if (localeData.metallicDyeIds) {
+    const ids = localeData.metallicDyeIds.filter((id) => id !== dye.itemID)
+    if (dye.isMetallic) {
+      ids.push(dye.itemID)
+      ids.sort((a, b) => a - b)
+    }
+    localeData.metallicDyeIds = ids
+  }
+
+  refreshLocaleMeta(localeData)
+}
+
+/**
+ * Remove a dye from a locale file
+ *
+ * Drops the `dyeNames` key and any `metallicDyeIds` entry so no orphans are
+ * left behind, then refreshes the meta section.
+ *
+ * @param localeData - Locale file contents (mutated in place)
+ * @param itemId - Item ID of the removed dye
+ */
+export function removeLocaleDye(localeData: LocaleData, itemId: number): void {
+  delete localeData.dyeNames[String(itemId)]
+
+  if (localeData.metallicDyeIds) {
+    localeData.metallicDyeIds = localeData.metallicDyeIds.filter((id) => id !== itemId)
+  }
+
+  refreshLocaleMeta(localeData)
+}
@@ -0,0 +1,84 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { Request, Response } from 'express'
+import { serializeJson } from './transaction.js'
+
+/**
+ * Entity tags for optimistic concurrency control
+ *
+ * Reads return an ETag (a hash of the file, or of a single dye record) and
+ * writes of content the client read earlier must send it back in If-Match.
+ * If the content changed in the meantime (another tab, or an edit outside
+ * the tool), the write is refused with 409 instead of silently overwriting.
+ */
+
+/**
+ * Strong entity tag for some content
+ */
+export function contentEtag(contents: string | Buffer): string {
+  return `"${crypto.createHash('sha256').update(contents).digest('hex').slice(0, 32)}"`
+}
+
+/**
+ * Entity tag of a file as it is on disk
+ */
+export async function fileEtag(filePath: string): Promise<string> {
+  return contentEtag(await fs.readFile(filePath))
+}
+
+/**
+ * Entity tag of a JSON value (e.g. one dye with its locale names)
+ */
+export function recordEtag(record: unknown): string {
+  return contentEtag(serializeJson(record))
+}
+
+/**
+ * Check whether an If-Match header value matches an entity tag
+ * (supports `*` and comma-separated lists; weak tags never match)
+ */
+function ifMatchSatisfied(header: string, etag: string): boolean {
+  return header
+    .split(',')
+    .map((value) => value.trim())
+    .some((value) => value === '*' || value === etag)
+}
+
+/**
+ * Enforce If-Match on a write
+ *
+ * Sends 428 if the header is missing and 409 if it no longer matches; the
+ * 409 body carries `conflict` with the current entity tag plus whatever
+ * `describeConflict` returns (e.g. a diff of what overwriting would change).
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param what - Name of the content for the error message (e.g. "colors_xiv.json")
+ * @param currentEtag - Entity tag of the current content
+ * @param describeConflict - Builds the conflict details (only called on mismatch)
+ * @returns true if the write may go ahead
+ */
+export async function checkIfMatch(
+  req: Request,
+  res: Response,
+  what: string,
+  currentEtag: string,
+  describeConflict: () => Promise<Record<string, unknown>>
+): Promise<boolean> {
+  const header = req.get('If-Match')
+  if (!header) {
+    res.status(428).json({ success: false, error: 'If-Match header is required' })
+    return false
+  }
+
+  if (!ifMatchSatisfied(header, currentEtag)) {
+    res.status(409).json({
+      success: false,
+      error: `${what} has changed since it was loaded`,
+      conflict: { etag: currentEtag, ...(await describeConflict()) },
+    })
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Dye } from '../schemas.js'
+import { EXPORT_FORMATS } from './exporters.js'
+import type { ExportRecord } from './exporters.js'
+
+function record(itemID: number, en: string, rgb: Dye['rgb'], hex: string): ExportRecord {
+  return {
+    dye: {
+      itemID,
+      category: 'Neutral',
+      name: en,
+      hex,
+      acquisition: 'Dye Vendor',
+      price: 216,
+      currency: 'Gil',
+      rgb,
+      hsv: { h: 0, s: 0, v: 0 },
+      isMetallic: false,
+      isPastel: false,
+      isDark: false,
+      isCosmic: false,
+    },
+    localeNames: { en, ja: '', de: '', fr: '', ko: '', zh: '' },
+  }
+}
+
+const records = [
+  record(5729, 'Snow, "White"', { r: 228, g: 223, b: 208 }, '#E4DFD0'),
+  record(5730, 'Crème', { r: 255, g: 0, b: 51 }, '#ff0033'),
+  record(5731, 'Creme', { r: 0, g: 0, b: 0 }, '#000000'),
+]
+
+describe('exporters', () => {
+  it('quotes CSV fields and uses the importer column names', () => {
+    const lines = (EXPORT_FORMATS.csv.render(records) as string).split('\r\n')
+    assert.equal(
+      lines[0],
+      'itemID,name,hex,r,g,b,h,s,v,category,acquisition,price,currency,' +
+        'isMetallic,isPastel,isDark,isCosmic,deprecated,en,ja,de,fr,ko,zh'
+    )
+    assert.match(lines[1], /^5729,"Snow, ""White""",#E4DFD0,228,223,208,/)
+    assert.match(lines[1], /,false,"Snow, ""White""",,,,,$/)
+  })
+
+  it('names CSS properties after the dye, disambiguating clashes', () => {
+    const css = EXPORT_FORMATS.css.render(records) as string
+    assert.match(css, /--dye-snow-white: #e4dfd0;/)
+    assert.match(css, /--dye-creme: #ff0033;/)
+    assert.match(css, /--dye-creme-5731: #000000;/)
+  })
+
+  it('writes the Adobe Swatch Exchange layout', () => {
+    const ase = EXPORT_FORMATS.ase.render(records.slice(1, 2)) as Buffer
+
+    // Header: signature, version 1.0, block count
+    assert.equal(ase.toString('ascii', 0, 4), 'ASEF')
+    assert.equal(ase.readUInt16BE(4), 1)
+    assert.equal(ase.readUInt16BE(6), 0)
+    assert.equal(ase.readUInt32BE(8), 1)
+
+    // Color entry: type, length, UTF-16 name with terminator, model, channels, color type
+    assert.equal(ase.readUInt16BE(12), 0x0001)
+    const blockLength = ase.readUInt32BE(14)
+    assert.equal(blockLength, 2 + 6 * 2 + 4 + 12 + 2)
+    assert.equal(ase.length, 18 + blockLength)
+    assert.equal(ase.readUInt16BE(18), 6)
+    assert.equal(Buffer.from(ase.subarray(20, 30)).swap16().toString('utf16le'), 'Crème')
+    assert.equal(ase.readUInt16BE(30), 0)
+    assert.equal(ase.toString('ascii', 32, 36), 'RGB ')
+    assert.deepEqual(
+      [ase.readFloatBE(36), ase.readFloatBE(40), ase.readFloatBE(44)],
+      [1, 0, Math.fround(51 / 255)]
+    )
+    assert.equal(ase.readUInt16BE(48), 2)
+  })
+})
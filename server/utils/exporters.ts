@@ -0,0 +1,178 @@
+import type { Dye, LocaleNames } from '../schemas.js'
+import { LOCALE_CODES } from './dataFiles.js'
+
+/**
+ * Export formats for the dye database
+ *
+ * Every exporter takes the same list of records (a dye plus its name in each
+ * locale file) so the routes can filter once and render any format.
+ */
+
+export interface ExportRecord {
+  dye: Dye
+  localeNames: LocaleNames
+}
+
+/**
+ * Export format definition
+ */
+export interface ExportFormat {
+  /** File extension (without dot) */
+  extension: string
+  contentType: string
+  render: (records: ExportRecord[]) => string | Buffer
+}
+
+/**
+ * Flatten a record into one level of keys
+ *
+ * Column names match what the bulk importer accepts, so an export can be
+ * edited in a spreadsheet and imported again.
+ */
+function flatten({ dye, localeNames }: ExportRecord): Record<string, string | number | boolean | null> {
+  const flat: Record<string, string | number | boolean | null> = {
+    itemID: dye.itemID,
+    name: dye.name,
+    hex: dye.hex,
+    r: dye.rgb.r,
+    g: dye.rgb.g,
+    b: dye.rgb.b,
+    h: dye.hsv.h,
+    s: dye.hsv.s,
+    v: dye.hsv.v,
+    category: dye.category,
+    acquisition: dye.acquisition,
+    price: dye.price,
+    currency: dye.currency,
+    isMetallic: dye.isMetallic,
+    isPastel: dye.isPastel,
+    isDark: dye.isDark,
+    isCosmic: dye.isCosmic,
+    deprecated: dye.deprecated ?? false,
+  }
+  for (const code of LOCALE_CODES) {
+    flat[code] = localeNames[code]
+  }
+  return flat
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function renderCsv(records: ExportRecord[]): string {
+  const rows = records.map(flatten)
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : []
+  const lines = [headers.join(',')]
+  for (const row of rows) {
+    lines.push(headers.map((header) => csvField(row[header])).join(','))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
+
+function renderJson(records: ExportRecord[]): string {
+  return JSON.stringify(records.map(flatten), null, 2) + '\n'
+}
+
+/**
+ * Display name for palette entries (English name from the locale file, if any)
+ */
+function paletteName({ dye, localeNames }: ExportRecord): string {
+  return localeNames.en || dye.name
+}
+
+/**
+ * GIMP palette (.gpl)
+ */
+function renderGpl(records: ExportRecord[]): string {
+  const lines = ['GIMP Palette', 'Name: FFXIV Dyes', 'Columns: 8', '#']
+  for (const record of records) {
+    const { r, g, b } = record.dye.rgb
+    const channels = [r, g, b].map((channel) => String(channel).padStart(3, ' ')).join(' ')
+    lines.push(`${channels}\t${paletteName(record)}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * CSS custom properties (`--dye-<name>: #rrggbb;`)
+ */
+function renderCss(records: ExportRecord[]): string {
+  const used = new Set<string>()
+  const lines = ['/* FFXIV dye colors */', ':root {']
+
+  for (const record of records) {
+    const slug = paletteName(record)
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '') // strip accents
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+
+    // Fall back to (or disambiguate with) the item ID
+    let property = `--dye-${slug || record.dye.itemID}`
+    if (used.has(property)) {
+      property = `${property}-${record.dye.itemID}`
+    }
+    used.add(property)
+
+    lines.push(`  ${property}: ${record.dye.hex.toLowerCase()};`)
+  }
+
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Adobe Swatch Exchange (.ase, version 1.0)
+ *
+ * Big-endian binary: "ASEF", version, block count, then one color entry block
+ * per dye (UTF-16 name, "RGB " model, three float32 channels, color type).
+ */
+function renderAse(records: ExportRecord[]): Buffer {
+  const blocks = records.map((record) => {
+    const name = paletteName(record)
+    const nameLength = name.length + 1 // UTF-16 code units including the null terminator
+    const blockLength = 2 + nameLength * 2 + 4 + 12 + 2
+    const block = Buffer.alloc(6 + blockLength)
+
+    let offset = block.writeUInt16BE(0x0001, 0) // color entry
+    offset = block.writeUInt32BE(blockLength, offset)
+    offset = block.writeUInt16BE(nameLength, offset)
+    for (let i = 0; i < name.length; i++) {
+      offset = block.writeUInt16BE(name.charCodeAt(i), offset)
+    }
+    offset = block.writeUInt16BE(0, offset)
+    offset += block.write('RGB ', offset, 'ascii')
+    const { r, g, b } = record.dye.rgb
+    for (const channel of [r, g, b]) {
+      offset = block.writeFloatBE(channel / 255, offset)
+    }
+    block.writeUInt16BE(2, offset) // normal (not global/spot)
+
+    return block
+  })
+
+  const header = Buffer.alloc(12)
+  header.write('ASEF', 0, 'ascii')
+  header.writeUInt16BE(1, 4)
+  header.writeUInt16BE(0, 6)
+  header.writeUInt32BE(blocks.length, 8)
+
+  return Buffer.concat([header, ...blocks])
+}
+
+/**
+ * Supported export formats, keyed by the name used in GET /api/export/:format
+ */
+export const EXPORT_FORMATS: Record<string, ExportFormat> = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8', render: renderCsv },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8', render: renderJson },
+  gpl: { extension: 'gpl', contentType: 'text/plain; charset=utf-8', render: renderGpl },
+  ase: { extension: 'ase', contentType: 'application/octet-stream', render: renderAse },
+  css: { extension: 'css', contentType: 'text/css; charset=utf-8', render: renderCss },
+}
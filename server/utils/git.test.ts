@@ -0,0 +1,59 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { execFileSync } from 'child_process'
+import fs from 'fs/promises'
+import path from 'path'
+import { useScratchCore } from '../test/scratchCore.js'
+
+const { root, corePath } = await useScratchCore()
+const { GitError, commitDataFiles, currentBranch } = await import('./git.js')
+
+// Git with no user identity: a failing commit
+process.env.HOME = root
+process.env.GIT_CONFIG_NOSYSTEM = '1'
+process.env.GIT_CONFIG_GLOBAL = path.join(root, 'gitconfig')
+for (const role of ['AUTHOR', 'COMMITTER']) {
+  delete process.env[`GIT_${role}_NAME`]
+  delete process.env[`GIT_${role}_EMAIL`]
+}
+delete process.env.EMAIL
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: corePath, encoding: 'utf-8' }).trim()
+}
+
+describe('commitDataFiles', () => {
+  let stagedEn: string
+
+  before(async () => {
+    git('init', '--quiet', '--initial-branch=main')
+    git('add', '.')
+    git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'Fixture')
+    // Without this git may derive an identity from the host name
+    git('config', 'user.useConfigOnly', 'true')
+
+    const colorsPath = path.join(corePath, 'src/data/colors_xiv.json')
+    await fs.writeFile(colorsPath, (await fs.readFile(colorsPath, 'utf-8')) + '\n')
+
+    // A change the maintainer staged, then edited further
+    const enPath = path.join(corePath, 'src/data/locales/en.json')
+    await fs.writeFile(enPath, (await fs.readFile(enPath, 'utf-8')) + '\n')
+    git('add', enPath)
+    stagedEn = git('rev-parse', ':src/data/locales/en.json')
+    await fs.writeFile(enPath, (await fs.readFile(enPath, 'utf-8')) + '\n')
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('leaves the checkout as it was when the commit fails', async () => {
+    await assert.rejects(commitDataFiles('Update dyes', 'new-dyes'), GitError)
+
+    assert.equal(await currentBranch(), 'main')
+    assert.equal(git('branch', '--list', 'new-dyes'), '')
+    assert.equal(git('diff', '--cached', '--name-only'), 'src/data/locales/en.json')
+    assert.equal(git('diff', '--name-only'), 'src/data/colors_xiv.json\nsrc/data/locales/en.json')
+    assert.equal(git('rev-parse', ':src/data/locales/en.json'), stagedEn)
+  })
+})
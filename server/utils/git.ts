@@ -0,0 +1,307 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import type { Dye, LocaleData } from '../schemas.js'
+import { LOCALE_CODES, getCorePath, localeFileName } from './dataFiles.js'
+
+/**
+ * Local git operations on the active core target
+ *
+ * Only the data files (colors_xiv.json and the locale files) are ever staged
+ * or committed. Nothing is fetched or pushed.
+ */
+
+const execFileAsync = promisify(execFile)
+
+// Data file paths relative to the core directory (`./` keeps them relative to
+// the core directory even when it is a subdirectory of the repository)
+const DATA_PATHS = [
+  './src/data/colors_xiv.json',
+  ...LOCALE_CODES.map((code) => `./src/data/${localeFileName(code)}`),
+]
+
+/**
+ * Error from a git command, with output safe to show to the client
+ */
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GitError'
+  }
+}
+
+/**
+ * Run git in the active core directory
+ *
+ * @returns stdout
+ * @throws GitError with git's first error line (absolute core path redacted)
+ */
+async function git(args: string[]): Promise<string> {
+  const corePath = getCorePath()
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd: corePath, maxBuffer: 20 * 1024 * 1024 })
+    return stdout
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr ?? ''
+    const firstLine = stderr.split('\n').find((line) => line.trim()) ?? 'git command failed'
+    throw new GitError(firstLine.split(corePath).join('<core>').trim())
+  }
+}
+
+/**
+ * Check whether the active core directory is inside a git work tree
+ */
+export async function isGitRepo(): Promise<boolean> {
+  try {
+    return (await git(['rev-parse', '--is-inside-work-tree'])).trim() === 'true'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Name of the checked-out branch ("HEAD" when detached)
+ */
+export async function currentBranch(): Promise<string> {
+  return (await git(['rev-parse', '--abbrev-ref', 'HEAD'])).trim()
+}
+
+/**
+ * A data file with uncommitted changes
+ */
+export interface GitFileStatus {
+  /** Path relative to the data directory (e.g. "locales/en.json") */
+  name: string
+  /** Two-letter porcelain status (e.g. " M") */
+  status: string
+}
+
+/**
+ * List data files with uncommitted changes
+ */
+export async function changedDataFiles(): Promise<GitFileStatus[]> {
+  // Porcelain paths are relative to the repository root
+  const output = await git(['status', '--porcelain', '--', ...DATA_PATHS])
+  return output
+    .split('\n')
+    .filter((line) => line.length > 3)
+    .map((line) => {
+      const filePath = line.slice(3)
+      return { status: line.slice(0, 2), name: filePath.slice(filePath.lastIndexOf('src/data/') + 9) }
+    })
+}
+
+/**
+ * Unified diff of uncommitted changes to the data files
+ */
+export async function dataFilesDiff(): Promise<string> {
+  return git(['diff', 'HEAD', '--relative', '--', ...DATA_PATHS])
+}
+
+/**
+ * Read a data file as committed in HEAD
+ *
+ * @returns Parsed contents, or null if the file is not in HEAD
+ */
+async function readCommitted<T>(relativePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await git(['show', `HEAD:${relativePath}`])) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Dyes added, updated or removed since HEAD
+ */
+export interface DyeChangeSummary {
+  added: Array<{ itemID: number; name: string }>
+  updated: Array<{ itemID: number; name: string }>
+  removed: Array<{ itemID: number; name: string }>
+}
+
+/**
+ * Compare the working data files with HEAD, dye by dye
+ *
+ * A dye counts as updated if its colors_xiv.json entry or its name in any
+ * locale file changed.
+ */
+export async function summarizeDyeChanges(dataSet: {
+  dyes: Dye[]
+  locales: Record<string, LocaleData>
+}): Promise<DyeChangeSummary> {
+  const committedDyes = (await readCommitted<Dye[]>(DATA_PATHS[0])) ?? []
+  const before = new Map(committedDyes.filter((d) => d.itemID !== null).map((d) => [d.itemID!, d]))
+  const after = new Map(dataSet.dyes.filter((d) => d.itemID !== null).map((d) => [d.itemID!, d]))
+
+  const summary: DyeChangeSummary = { added: [], updated: [], removed: [] }
+  const updatedIds = new Set<number>()
+
+  for (const [itemID, dye] of after) {
+    const previous = before.get(itemID)
+    if (!previous) {
+      summary.added.push({ itemID, name: dye.name })
+    } else if (JSON.stringify(previous) !== JSON.stringify(dye)) {
+      updatedIds.add(itemID)
+    }
+  }
+  for (const [itemID, dye] of before) {
+    if (!after.has(itemID)) {
+      summary.removed.push({ itemID, name: dye.name })
+    }
+  }
+
+  // Name changes in locale files
+  for (const [index, code] of LOCALE_CODES.entries()) {
+    const committed = await readCommitted<LocaleData>(DATA_PATHS[index + 1])
+    const current = dataSet.locales[code]
+    for (const [key, name] of Object.entries(current.dyeNames)) {
+      const itemID = Number(key)
+      if (before.has(itemID) && after.has(itemID) && committed?.dyeNames[key] !== name) {
+        updatedIds.add(itemID)
+      }
+    }
+  }
+
+  for (const itemID of updatedIds) {
+    summary.updated.push({ itemID, name: after.get(itemID)!.name })
+  }
+  for (const list of [summary.added, summary.updated, summary.removed]) {
+    list.sort((a, b) => a.itemID - b.itemID)
+  }
+  return summary
+}
+
+/**
+ * Build a commit message listing the changed dyes
+ */
+export function buildCommitMessage(summary: DyeChangeSummary): string {
+  const plural = (count: number) => `${count} dye${count === 1 ? '' : 's'}`
+  const parts: string[] = []
+  if (summary.added.length) parts.push(`add ${plural(summary.added.length)}`)
+  if (summary.updated.length) parts.push(`update ${plural(summary.updated.length)}`)
+  if (summary.removed.length) parts.push(`remove ${plural(summary.removed.length)}`)
+
+  if (parts.length === 0) {
+    return 'Update dye data files\n'
+  }
+
+  const subject = parts.join(', ')
+  const lines = [subject.charAt(0).toUpperCase() + subject.slice(1), '']
+  const sections: Array<[string, DyeChangeSummary['added']]> = [
+    ['Added', summary.added],
+    ['Updated', summary.updated],
+    ['Removed', summary.removed],
+  ]
+  for (const [title, dyes] of sections) {
+    if (dyes.length === 0) continue
+    lines.push(`${title}:`)
+    for (const dye of dyes) {
+      lines.push(`- ${dye.name} (${dye.itemID})`)
+    }
+    lines.push('')
+  }
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+/**
+ * Check whether a branch name is valid and not already taken
+ *
+ * @throws GitError if the name is invalid or exists
+ */
+async function assertNewBranch(branch: string): Promise<void> {
+  await git(['check-ref-format', '--branch', branch])
+  try {
+    await git(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`])
+  } catch {
+    return
+  }
+  throw new GitError(`Branch "${branch}" already exists`)
+}
+
+/**
+ * Index entries of the data files (`git ls-files --stage` lines, with paths
+ * relative to the repository root as `update-index --cacheinfo` expects)
+ */
+async function dataFileIndexEntries(): Promise<string[]> {
+  const output = await git(['ls-files', '--stage', '--full-name', '--', ...DATA_PATHS])
+  return output.split('\n').filter(Boolean)
+}
+
+/**
+ * Undo the steps of a commit that failed
+ *
+ * Puts the data files' index entries back as they were before staging, so
+ * anything the maintainer had staged stays staged, and, if a new branch was
+ * created, switches back to the previous branch and deletes the new one. Each
+ * step is attempted even if an earlier one fails.
+ *
+ * @param indexEntries - Entries recorded by dataFileIndexEntries before staging
+ * @param branch - New branch created for the commit, if any
+ */
+async function abandonCommit(indexEntries: string[], branch?: string): Promise<void> {
+  const steps = [['update-index', '--force-remove', '--', ...DATA_PATHS]]
+  if (indexEntries.length > 0) {
+    steps.push([
+      'update-index',
+      '--add',
+      ...indexEntries.flatMap((entry) => {
+        const [info, filePath] = entry.split('\t')
+        const [mode, hash] = info.split(' ')
+        return ['--cacheinfo', `${mode},${hash},${filePath}`]
+      }),
+    ])
+  }
+  if (branch) {
+    // The new branch still points at the previous HEAD, so switching back
+    // keeps the working tree as it is
+    steps.push(['switch', '-'], ['branch', '--delete', '--force', branch])
+  }
+
+  for (const args of steps) {
+    try {
+      await git(args)
+    } catch {
+      // Best effort: the commit error is what gets reported
+    }
+  }
+}
+
+/**
+ * Commit the data files (only) to the current branch or a new branch
+ *
+ * If the commit fails, the checkout is left as it was (see abandonCommit).
+ *
+ * @param message - Commit message
+ * @param branch - Optional new branch to create from HEAD first
+ * @returns Short hash of the new commit and the branch it is on
+ */
+export async function commitDataFiles(
+  message: string,
+  branch?: string
+): Promise<{ commit: string; branch: string }> {
+  const indexEntries = await dataFileIndexEntries()
+  // Stages 1-3 are merge conflicts, which --cacheinfo could not put back
+  if (indexEntries.some((entry) => !entry.split('\t')[0].endsWith(' 0'))) {
+    throw new GitError('Resolve the merge conflicts in the data files first')
+  }
+
+  if (branch) {
+    await assertNewBranch(branch)
+    await git(['switch', '--create', branch])
+  }
+
+  try {
+    // `git commit -- <paths>` commits only these files, leaving anything else
+    // the maintainer may have staged untouched
+    await git(['add', '--', ...DATA_PATHS])
+    await git(['commit', '--message', message, '--', ...DATA_PATHS])
+  } catch (error) {
+    await abandonCommit(indexEntries, branch)
+    throw error
+  }
+
+  return {
+    commit: (await git(['rev-parse', '--short', 'HEAD'])).trim(),
+    branch: await currentBranch(),
+  }
+}
@@ -0,0 +1,82 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import { useScratchCore } from '../test/scratchCore.js'
+import type { DataSet } from './dataFiles.js'
+import type { IntegrityIssueCode } from './integrity.js'
+
+const { root } = await useScratchCore()
+const { readDataSet } = await import('./dataFiles.js')
+const { deriveColors } = await import('./dyeColors.js')
+const { applyIntegrityFix, checkIntegrity } = await import('./integrity.js')
+
+const codes = (dataSet: DataSet) => [...new Set(checkIntegrity(dataSet).map((issue) => issue.code))]
+
+describe('integrity checks', () => {
+  let fixture: DataSet
+
+  before(async () => {
+    fixture = await readDataSet()
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  // Each case breaks one invariant of the (consistent) fixture
+  const cases: Array<[IntegrityIssueCode, (dataSet: DataSet) => void]> = [
+    [
+      'duplicate-item-id',
+      ({ dyes }) => dyes.push({ ...dyes[0], hex: '#010203', ...deriveColors('#010203') }),
+    ],
+    [
+      'duplicate-hex',
+      ({ dyes }) => Object.assign(dyes[1], { hex: dyes[0].hex, ...deriveColors(dyes[0].hex) }),
+    ],
+    ['color-mismatch', ({ dyes }) => (dyes[0].rgb = { r: 0, g: 0, b: 0 })],
+    ['missing-locale-name', ({ locales }) => delete locales.fr.dyeNames['5729']],
+    ['orphan-locale-name', ({ locales }) => (locales.de.dyeNames['99999'] = 'Gone')],
+    ['dye-count-mismatch', ({ locales }) => (locales.ja.meta.dyeCount = 7)],
+    ['metallic-mismatch', ({ locales }) => (locales.en.metallicDyeIds = [5729, 30116])],
+    ['unknown-category', ({ dyes }) => (dyes[0].category = 'Unlabeled')],
+    ['unknown-acquisition', ({ dyes }) => (dyes[0].acquisition = 'Unlabeled')],
+  ]
+
+  it('finds nothing wrong with the fixture', () => {
+    assert.deepEqual(checkIntegrity(fixture), [])
+  })
+
+  for (const [code, breakInvariant] of cases) {
+    it(`reports ${code}`, () => {
+      const dataSet = structuredClone(fixture)
+      breakInvariant(dataSet)
+
+      const found = codes(dataSet)
+      // Missing/orphan names also leave meta.dyeCount wrong
+      assert.deepEqual(
+        found.filter((c) => c !== 'dye-count-mismatch' || code === 'dye-count-mismatch'),
+        [code]
+      )
+
+      const fixable = checkIntegrity(dataSet).find((issue) => issue.code === code)?.fixable
+      if (fixable) {
+        applyIntegrityFix(dataSet, code)
+        assert.deepEqual(codes(dataSet), [])
+      }
+    })
+  }
+
+  it('deletes orphan names, including keys that are not item IDs', () => {
+    const dataSet = structuredClone(fixture)
+    dataSet.locales.de.dyeNames['99999'] = 'Gone'
+    dataSet.locales.de.dyeNames['notes'] = 'Hand-written'
+
+    assert.deepEqual(applyIntegrityFix(dataSet, 'orphan-locale-name'), [99999])
+    assert.deepEqual(dataSet.locales.de.dyeNames, fixture.locales.de.dyeNames)
+    assert.equal(dataSet.locales.de.meta.dyeCount, 3)
+  })
+
+  it('has no automatic fix for issues that need a decision', () => {
+    assert.throws(() => applyIntegrityFix(structuredClone(fixture), 'duplicate-item-id'))
+  })
+})
@@ -0,0 +1,310 @@
+import { IntegrityFixSchema } from '../schemas.js'
+import type { Dye } from '../schemas.js'
+import { LOCALE_CODES } from './dataFiles.js'
+import type { DataSet, LocaleCode } from './dataFiles.js'
+import { colorMatchesHex, deriveColors } from './dyeColors.js'
+import { refreshLocaleMeta } from './dyeData.js'
+
+/**
+ * Cross-record integrity checks for the core data files
+ *
+ * DyeArraySchema / LocaleDataSchema validate the shape of each file; these
+ * checks cover invariants between records and between files.
+ */
+
+/**
+ * Kinds of integrity issue
+ */
+export const INTEGRITY_ISSUE_CODES = [
+  'duplicate-item-id',
+  'duplicate-hex',
+  'color-mismatch',
+  'missing-locale-name',
+  'orphan-locale-name',
+  'dye-count-mismatch',
+  'metallic-mismatch',
+  'unknown-category',
+  'unknown-acquisition',
+] as const
+
+export type IntegrityIssueCode = (typeof INTEGRITY_ISSUE_CODES)[number]
+
+/**
+ * Issue codes with an automatic fix. All but orphan-locale-name derive the
+ * correct value from the data; that one deletes the orphaned translations.
+ */
+export const FIXABLE_ISSUE_CODES: readonly IntegrityIssueCode[] = IntegrityFixSchema.shape.code.options
+
+/**
+ * A single integrity problem
+ */
+export interface IntegrityIssue {
+  code: IntegrityIssueCode
+  severity: 'error' | 'warning'
+  message: string
+  /** Item IDs of the dyes involved */
+  itemIds: number[]
+  /** Locale file involved, if any */
+  locale?: LocaleCode
+  /** true if POST /api/integrity/fix can repair this kind of issue */
+  fixable: boolean
+}
+
+function issue(
+  code: IntegrityIssueCode,
+  severity: IntegrityIssue['severity'],
+  message: string,
+  itemIds: number[],
+  locale?: LocaleCode
+): IntegrityIssue {
+  return { code, severity, message, itemIds, locale, fixable: FIXABLE_ISSUE_CODES.includes(code) }
+}
+
+/**
+ * Item IDs of metallic dyes, sorted ascending
+ */
+function metallicItemIds(dyes: Dye[]): number[] {
+  return dyes
+    .filter((dye) => dye.isMetallic && dye.itemID !== null)
+    .map((dye) => dye.itemID as number)
+    .sort((a, b) => a - b)
+}
+
+/**
+ * true if a dyeNames key is an item ID (hand-edited files may hold others)
+ */
+function isItemIdKey(key: string): boolean {
+  return /^\d+$/.test(key)
+}
+
+/**
+ * Run every integrity check against the data set
+ *
+ * @param dataSet - colors_xiv.json and all locale files
+ * @returns Issues found (empty when the data is consistent)
+ */
+export function checkIntegrity(dataSet: DataSet): IntegrityIssue[] {
+  const { dyes, locales } = dataSet
+  const issues: IntegrityIssue[] = []
+
+  // Duplicate item IDs and hexes
+  const byItemId = new Map<number, number>()
+  const byHex = new Map<string, number[]>()
+  for (const dye of dyes) {
+    if (dye.itemID !== null) {
+      byItemId.set(dye.itemID, (byItemId.get(dye.itemID) ?? 0) + 1)
+    }
+    const hex = dye.hex.toLowerCase()
+    byHex.set(hex, [...(byHex.get(hex) ?? []), dye.itemID ?? 0])
+  }
+  for (const [itemId, count] of byItemId) {
+    if (count > 1) {
+      issues.push(issue('duplicate-item-id', 'error', `Item ID ${itemId} appears ${count} times`, [itemId]))
+    }
+  }
+  for (const [hex, itemIds] of byHex) {
+    if (itemIds.length > 1) {
+      issues.push(
+        issue('duplicate-hex', 'warning', `${itemIds.length} dyes share the color ${hex}`, itemIds.filter(Boolean))
+      )
+    }
+  }
+
+  // rgb/hsv that disagree with hex
+  for (const dye of dyes) {
+    if (!colorMatchesHex(dye)) {
+      issues.push(
+        issue(
+          'color-mismatch',
+          'error',
+          `${dye.name}: rgb/hsv do not match hex ${dye.hex}`,
+          dye.itemID === null ? [] : [dye.itemID]
+        )
+      )
+    }
+  }
+
+  const itemIdKeys = new Set(
+    dyes.filter((dye) => dye.itemID !== null).map((dye) => String(dye.itemID))
+  )
+  const categories = new Set(dyes.map((dye) => dye.category))
+  const acquisitions = new Set(dyes.map((dye) => dye.acquisition))
+  const expectedMetallic = metallicItemIds(dyes)
+
+  for (const code of LOCALE_CODES) {
+    const localeData = locales[code]
+    const nameKeys = Object.keys(localeData.dyeNames)
+
+    // Dyes missing from dyeNames, and dyeNames keys with no dye
+    const missing = [...itemIdKeys].filter((key) => !(key in localeData.dyeNames))
+    if (missing.length > 0) {
+      issues.push(
+        issue(
+          'missing-locale-name',
+          'error',
+          `${code}.json is missing names for ${missing.length} dye(s)`,
+          missing.map(Number),
+          code
+        )
+      )
+    }
+
+    const orphans = nameKeys.filter((key) => !itemIdKeys.has(key))
+    if (orphans.length > 0) {
+      issues.push(
+        issue(
+          'orphan-locale-name',
+          'warning',
+          `${code}.json has ${orphans.length} name(s) for dyes not in colors_xiv.json`,
+          orphans.filter(isItemIdKey).map(Number),
+          code
+        )
+      )
+    }
+
+    // meta.dyeCount
+    if (localeData.meta.dyeCount !== nameKeys.length) {
+      issues.push(
+        issue(
+          'dye-count-mismatch',
+          'warning',
+          `${code}.json meta.dyeCount is ${localeData.meta.dyeCount} but dyeNames has ${nameKeys.length} entries`,
+          [],
+          code
+        )
+      )
+    }
+
+    // metallicDyeIds vs isMetallic
+    if (localeData.metallicDyeIds) {
+      const listed = new Set(localeData.metallicDyeIds)
+      const disagreeing = [
+        ...expectedMetallic.filter((id) => !listed.has(id)),
+        ...localeData.metallicDyeIds.filter((id) => !expectedMetallic.includes(id)),
+      ]
+      if (disagreeing.length > 0) {
+        issues.push(
+          issue(
+            'metallic-mismatch',
+            'error',
+            `${code}.json metallicDyeIds disagrees with isMetallic for ${disagreeing.length} dye(s)`,
+            disagreeing,
+            code
+          )
+        )
+      }
+    }
+
+    // Categories / acquisitions without a localized label
+    if (localeData.categories) {
+      for (const category of categories) {
+        if (!(category in localeData.categories)) {
+          issues.push(
+            issue(
+              'unknown-category',
+              'warning',
+              `${code}.json has no label for category "${category}"`,
+              dyes.filter((d) => d.category === category && d.itemID !== null).map((d) => d.itemID as number),
+              code
+            )
+          )
+        }
+      }
+    }
+    if (localeData.acquisitions) {
+      for (const acquisition of acquisitions) {
+        if (!(acquisition in localeData.acquisitions)) {
+          issues.push(
+            issue(
+              'unknown-acquisition',
+              'warning',
+              `${code}.json has no label for acquisition "${acquisition}"`,
+              dyes
+                .filter((d) => d.acquisition === acquisition && d.itemID !== null)
+                .map((d) => d.itemID as number),
+              code
+            )
+          )
+        }
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Repair every issue of a fixable kind
+ *
+ * @param dataSet - Data set to repair (mutated in place)
+ * @param code - Kind of issue to fix (must be in FIXABLE_ISSUE_CODES)
+ * @returns Item IDs of the dyes touched by the fix
+ */
+export function applyIntegrityFix(dataSet: DataSet, code: IntegrityIssueCode): number[] {
+  const { dyes, locales } = dataSet
+  const touched = new Set<number>()
+
+  switch (code) {
+    case 'color-mismatch':
+      for (const dye of dyes) {
+        if (!colorMatchesHex(dye)) {
+          Object.assign(dye, deriveColors(dye.hex))
+          if (dye.itemID !== null) touched.add(dye.itemID)
+        }
+      }
+      break
+
+    case 'orphan-locale-name': {
+      const itemIdKeys = new Set(
+        dyes.filter((dye) => dye.itemID !== null).map((dye) => String(dye.itemID))
+      )
+      for (const localeCode of LOCALE_CODES) {
+        const localeData = locales[localeCode]
+        const orphans = Object.keys(localeData.dyeNames).filter((key) => !itemIdKeys.has(key))
+        for (const key of orphans) {
+          delete localeData.dyeNames[key]
+          if (isItemIdKey(key)) touched.add(Number(key))
+        }
+        if (orphans.length > 0) {
+          refreshLocaleMeta(localeData)
+        }
+      }
+      break
+    }
+
+    case 'dye-count-mismatch':
+      for (const localeCode of LOCALE_CODES) {
+        const localeData = locales[localeCode]
+        if (localeData.meta.dyeCount !== Object.keys(localeData.dyeNames).length) {
+          refreshLocaleMeta(localeData)
+        }
+      }
+      break
+
+    case 'metallic-mismatch': {
+      const expected = metallicItemIds(dyes)
+      for (const localeCode of LOCALE_CODES) {
+        const localeData = locales[localeCode]
+        const listed = localeData.metallicDyeIds
+        if (!listed) {
+          continue
+        }
+
+        const disagreeing = [...new Set([...listed, ...expected])].filter(
+          (id) => listed.includes(id) !== expected.includes(id)
+        )
+        if (disagreeing.length > 0) {
+          disagreeing.forEach((id) => touched.add(id))
+          localeData.metallicDyeIds = [...expected]
+          refreshLocaleMeta(localeData)
+        }
+      }
+      break
+    }
+
+    default:
+      throw new Error(`Issue type has no automatic fix: ${code}`)
+  }
+
+  return [...touched]
+}
@@ -11,6 +11,9 @@
  * - WARN: Warning messages for potentially problematic situations
  * - ERROR: Error messages for failures and exceptions
  * - AUDIT: Security-relevant events (mutations, auth events, etc.)
+ *
+ * Every entry is printed to stdout/stderr and handed to any registered sinks
+ * (e.g. the persistent audit log file).
  */
 
 /**
@@ -35,13 +38,20 @@ export interface LogContext {
 /**
  * Structured log entry format
  */
-interface LogEntry {
+export interface LogEntry {
   timestamp: string
   level: LogLevel
   message: string
   [key: string]: unknown // Additional context fields
 }
 
+/**
+ * Additional destination for log entries
+ */
+export interface LogSink {
+  write(entry: LogEntry): void
+}
+
 /**
  * Structured logger for the maintainer service
  *
@@ -66,8 +76,23 @@ interface LogEntry {
  * })
  */
 export class Logger {
+  private static readonly sinks = new Set<LogSink>()
+
   /**
-   * Formats a log entry as JSON
+   * Register a sink that receives every log entry
+   *
+   * @param sink - Destination to add
+   * @returns Function that removes the sink
+   */
+  static addSink(sink: LogSink): () => void {
+    this.sinks.add(sink)
+    return () => {
+      this.sinks.delete(sink)
+    }
+  }
+
+  /**
+   * Formats a log entry as JSON and passes it to the registered sinks
    *
    * @param level - Log level
    * @param message - Human-readable message
@@ -81,6 +106,14 @@ export class Logger {
       message,
       ...context,
     }
+    for (const sink of this.sinks) {
+      // A failing sink must never break the request being logged
+      try {
+        sink.write(entry)
+      } catch (error) {
+        console.error(`Log sink failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
     return JSON.stringify(entry)
   }
 
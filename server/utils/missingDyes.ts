@@ -0,0 +1,168 @@
+import { DYE_ITEM_UI_CATEGORY } from '../xivapi/XivapiClient.js'
+import type { XivapiSource } from '../xivapi/XivapiClient.js'
+import type { DataSet } from './dataFiles.js'
+import { nameDumps } from './nameDumps.js'
+import { XIVAPI_LANGUAGES, xivapi } from './xivapi.js'
+
+/**
+ * "What's missing" scan
+ *
+ * Lists every dye item in the game (from XIVAPI, or from the local Item sheet
+ * dumps) and reports the ones colors_xiv.json does not have yet, with their
+ * names prefetched so each can be opened in the editor ready to fill in.
+ *
+ * A scan stops after SCAN_TIME_LIMIT_MS so it answers before the request
+ * timeout. Names looked up until then stay cached, so scanning again gets
+ * further.
+ */
+
+// Stays below the 30s request timeout (middleware/timeout.ts)
+export const SCAN_TIME_LIMIT_MS = 25000
+
+/**
+ * Where the list of dye items comes from
+ * - xivapi: every item in the dye ItemUICategory on XIVAPI (cached like other lookups)
+ * - dumps: items in the dye ItemUICategory in the local Item sheet dumps
+ */
+export const MISSING_DYE_SOURCES = ['xivapi', 'dumps'] as const
+
+export type MissingDyeSource = (typeof MISSING_DYE_SOURCES)[number]
+
+/**
+ * A dye item that colors_xiv.json does not have
+ */
+export interface MissingDye {
+  itemId: number
+  /** Name per locale as the game writes it (dye prefix included) */
+  names: Record<string, string>
+  iconUrl: string | null
+  /** Names that could not be fetched */
+  errors: string[]
+}
+
+export interface MissingDyeScan {
+  source: MissingDyeSource
+  /** When the list of dye items was read */
+  listedAt: string
+  /** Where the XIVAPI list was answered from (xivapi source only) */
+  listSource?: XivapiSource
+  /** Dye items found in the source */
+  dyeItemCount: number
+  /** Missing dyes, newest (highest item ID) first */
+  missing: MissingDye[]
+}
+
+/**
+ * Thrown when the chosen source cannot list dye items
+ */
+export class MissingDyeSourceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MissingDyeSourceError'
+  }
+}
+
+/**
+ * Thrown when a scan does not finish within SCAN_TIME_LIMIT_MS
+ */
+export class MissingDyeScanTimeoutError extends Error {
+  constructor() {
+    super(`The scan did not finish within ${SCAN_TIME_LIMIT_MS / 1000}s`)
+    this.name = 'MissingDyeScanTimeoutError'
+  }
+}
+
+/**
+ * Check whether a string is a scan source
+ *
+ * @param source - Value to check (typically a query parameter)
+ */
+export function isMissingDyeSource(source: string): source is MissingDyeSource {
+  return (MISSING_DYE_SOURCES as readonly string[]).includes(source)
+}
+
+/**
+ * Find the dye items missing from colors_xiv.json
+ *
+ * @param dataSet - Current data files
+ * @param source - Where to list the dye items from
+ * @param refresh - Fetch the XIVAPI list again even if the cached one is fresh
+ * @param signal - Stops the scan (e.g. when the client disconnects)
+ * @throws MissingDyeSourceError if no local dump has an ItemUICategory column
+ * @throws XivapiUnavailableError if XIVAPI cannot be reached and the list is not cached
+ * @throws MissingDyeScanTimeoutError if the scan runs out of time
+ */
+export async function scanMissingDyes(
+  dataSet: DataSet,
+  source: MissingDyeSource,
+  refresh: boolean,
+  signal?: AbortSignal
+): Promise<MissingDyeScan> {
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () => controller.abort(new MissingDyeScanTimeoutError()),
+    SCAN_TIME_LIMIT_MS
+  )
+  const onAbort = () => controller.abort(signal?.reason)
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    return await runScan(dataSet, source, refresh, controller.signal)
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * The scan itself, stopped by `signal`
+ */
+async function runScan(
+  dataSet: DataSet,
+  source: MissingDyeSource,
+  refresh: boolean,
+  signal: AbortSignal
+): Promise<MissingDyeScan> {
+  const existing = new Set(dataSet.dyes.map((dye) => dye.itemID))
+  const missing: MissingDye[] = []
+  let scan: Omit<MissingDyeScan, 'missing'>
+
+  if (source === 'xivapi') {
+    const list = await xivapi.listDyes(XIVAPI_LANGUAGES, refresh, signal)
+    scan = {
+      source,
+      listedAt: list.fetchedAt,
+      listSource: list.source,
+      dyeItemCount: list.results.length,
+    }
+    for (const item of list.results) {
+      if (existing.has(item.itemId)) continue
+      missing.push({
+        itemId: item.itemId,
+        names: { ...item.names },
+        iconUrl: item.icon ? xivapi.iconUrl(item.icon) : null,
+        errors: [],
+      })
+    }
+  } else {
+    const itemIds = await nameDumps.itemsInCategory(DYE_ITEM_UI_CATEGORY)
+    if (!itemIds) {
+      throw new MissingDyeSourceError('No local dump has an ItemUICategory column')
+    }
+    scan = { source, listedAt: new Date().toISOString(), dyeItemCount: itemIds.length }
+
+    // The dumps only hold ko/zh names; the others come from XIVAPI (or its cache)
+    for (const itemId of itemIds) {
+      if (existing.has(itemId)) continue
+      const { names, errors } = await xivapi.getNames(itemId, XIVAPI_LANGUAGES, signal)
+      missing.push({ itemId, names, iconUrl: null, errors })
+    }
+  }
+
+  for (const dye of missing) {
+    Object.assign(dye.names, await nameDumps.lookup(dye.itemId))
+  }
+  missing.sort((a, b) => b.itemId - a.itemId)
+
+  return { ...scan, missing }
+}
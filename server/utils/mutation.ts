@@ -0,0 +1,179 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { BackupManager } from '../backup/BackupManager.js'
+import { HistoryManager } from '../history/HistoryManager.js'
+import type { FileChange } from '../history/HistoryManager.js'
+import { summarizeChanges } from './audit.js'
+import { targetManager } from './coreTargets.js'
+import { dataWatcher } from './dataEvents.js'
+import { dataFiles, readJsonFile } from './dataFiles.js'
+import { Logger } from './logger.js'
+import { commitFiles, serializeJson, validateWrites } from './transaction.js'
+import type { FileWrite } from './transaction.js'
+import { unifiedDiff } from './textDiff.js'
+import type { FileDiff } from './textDiff.js'
+
+/**
+ * Mutation pipeline for the core data files
+ *
+ * Every route that changes colors_xiv.json or a locale file goes through
+ * applyMutation(), which validates the new contents, snapshots the current
+ * files into a backup, commits the writes as one transaction, and records the
+ * change set in the undo/redo history and the audit log. The file watcher is
+ * told about the writes first, so they are not reported as external edits.
+ * previewMutation() runs the same validation and returns a diff of each file
+ * instead of writing. Route handlers that write are wrapped in withWriteLock
+ * (middleware/writeLock.ts), so reading, checking If-Match and writing never
+ * interleave with another write.
+ */
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+// Backup location and retention (configurable via environment)
+const BACKUP_DIR = process.env.BACKUP_DIR
+  ? path.resolve(process.env.BACKUP_DIR)
+  : path.resolve(__dirname, '../../backups')
+const BACKUP_GENERATIONS = parseInt(process.env.BACKUP_GENERATIONS || '20', 10)
+
+// Number of operations kept for undo/redo
+const HISTORY_SIZE = 50
+
+/**
+ * Backups and history kept separately for each core target, so undo and
+ * restore never write one target's contents into another
+ */
+interface TargetState {
+  backups: BackupManager
+  history: HistoryManager
+}
+
+const targetStates = new Map<string, TargetState>()
+
+function activeTargetState(): TargetState {
+  const { name } = targetManager.active()
+  let state = targetStates.get(name)
+  if (!state) {
+    state = {
+      backups: new BackupManager(path.join(BACKUP_DIR, name), BACKUP_GENERATIONS),
+      history: new HistoryManager(HISTORY_SIZE),
+    }
+    targetStates.set(name, state)
+  }
+  return state
+}
+
+/**
+ * Backup manager for the active core target
+ */
+export function getBackupManager(): BackupManager {
+  return activeTargetState().backups
+}
+
+/**
+ * Undo/redo history for the active core target
+ */
+export function getHistoryManager(): HistoryManager {
+  return activeTargetState().history
+}
+
+/**
+ * Describes the operation performing a mutation
+ */
+export interface MutationContext {
+  /** Human-readable description (e.g. "Add dye 48163") */
+  reason: string
+  /** Request ID for log correlation */
+  requestId?: string
+  /** Session that made the request (see requireAuth) */
+  sessionId?: string
+  /** Item IDs of the affected dyes (shown in the history list) */
+  itemIds?: number[]
+  /** Record the operation for undo/redo (default true; false for undo/redo itself) */
+  recordHistory?: boolean
+}
+
+/**
+ * Name of a data file relative to the data directory
+ */
+function dataFileName(files: Array<{ name: string; filePath: string }>, filePath: string): string {
+  return files.find((file) => file.filePath === filePath)?.name ?? path.basename(filePath)
+}
+
+/**
+ * Validate a set of data file writes and diff them against the current files,
+ * without writing anything
+ *
+ * @param writes - Files that would be replaced
+ * @returns A diff for each file whose contents would change
+ * @throws TransactionError if validation fails
+ */
+export async function previewMutation(writes: FileWrite[]): Promise<FileDiff[]> {
+  validateWrites(writes)
+
+  const files = dataFiles()
+  const diffs: FileDiff[] = []
+  for (const write of writes) {
+    // Compare the raw text so formatting changes show up too
+    let before = ''
+    try {
+      before = await fs.readFile(write.filePath, 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+    }
+
+    const diff = unifiedDiff(dataFileName(files, write.filePath), before, serializeJson(write.data))
+    if (diff.diff) {
+      diffs.push(diff)
+    }
+  }
+  return diffs
+}
+
+/**
+ * Validate, back up and commit a set of data file writes
+ *
+ * @param writes - Files to replace
+ * @param context - Operation performing the mutation
+ * @throws TransactionError if validation or the commit fails
+ */
+export async function applyMutation(writes: FileWrite[], context: MutationContext): Promise<void> {
+  // Validate first so rejected requests don't create backups
+  validateWrites(writes)
+
+  const files = dataFiles()
+  const changes: FileChange[] = []
+  for (const write of writes) {
+    changes.push({
+      name: dataFileName(files, write.filePath),
+      filePath: write.filePath,
+      schema: write.schema,
+      before: await readJsonFile<unknown>(write.filePath),
+      after: write.data,
+    })
+  }
+
+  const { backups, history } = activeTargetState()
+  await backups.snapshot(files, context.reason, context.requestId)
+  dataWatcher.expectWrites(
+    writes.map((write) => ({ filePath: write.filePath, contents: serializeJson(write.data) }))
+  )
+  await commitFiles(writes)
+
+  if (context.recordHistory !== false) {
+    history.record(context.reason, context.itemIds ?? [], changes)
+  }
+
+  const summary = summarizeChanges(changes)
+  Logger.audit('Data files changed', {
+    requestId: context.requestId,
+    sessionId: context.sessionId,
+    target: targetManager.active().name,
+    operation: context.reason,
+    itemIds: [...new Set([...(context.itemIds ?? []), ...summary.itemIds])].sort((a, b) => a - b),
+    files: summary.files,
+  })
+}
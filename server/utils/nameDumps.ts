@@ -0,0 +1,29 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { NameDumpStore } from '../names/NameDumpStore.js'
+
+/**
+ * Local item name dumps
+ *
+ * XIVAPI only serves en/ja/de/fr. Korean and Chinese names are read from
+ * Item sheet CSV dumps placed in `name-dumps/<locale>/Item.csv` (e.g. copied
+ * from the community datamining repositories) and indexed into `cache/names/`.
+ */
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+// Dump and index locations (configurable via environment)
+const NAME_DUMPS_DIR = process.env.NAME_DUMPS_DIR
+  ? path.resolve(process.env.NAME_DUMPS_DIR)
+  : path.resolve(__dirname, '../../name-dumps')
+const NAME_CACHE_DIR = process.env.NAME_CACHE_DIR
+  ? path.resolve(process.env.NAME_CACHE_DIR)
+  : path.resolve(__dirname, '../../cache/names')
+
+// Create singleton name dump store
+export const nameDumps = new NameDumpStore({
+  dumpsDir: NAME_DUMPS_DIR,
+  cacheDir: NAME_CACHE_DIR,
+  locales: ['ko', 'zh'],
+})
@@ -2,14 +2,15 @@ import path from 'path'
 import fs from 'fs/promises'
 
 /**
- * Validate base paths at server startup
+ * Validate base paths of a core target
  *
  * Ensures that:
- * 1. Core path resolves to the expected xivdyetools-core directory
+ * 1. Core path is an existing directory
  * 2. Colors file exists and is accessible
  * 3. Locales directory exists and is accessible
  *
- * This is a fail-fast check that catches configuration errors before the server starts.
+ * This is a fail-fast check run at startup and before switching targets, so
+ * configuration errors are caught before any file is read or written.
  *
  * @param corePath - Path to the xivdyetools-core directory
  * @param colorsPath - Path to the colors_xiv.json file
@@ -23,15 +24,15 @@ export async function validateBasePaths(
 ): Promise<void> {
   console.log('🔒 Validating base paths...')
 
-  // Check that core path resolves correctly
-  const resolvedCore = path.resolve(corePath)
-  const normalizedCore = path.normalize(resolvedCore)
-
-  // Verify the path ends with 'xivdyetools-core' (platform-independent)
-  if (!normalizedCore.endsWith(path.join('xivdyetools-core'))) {
-    throw new Error(
-      `Core path validation failed: Expected path ending with 'xivdyetools-core', got '${normalizedCore}'`
-    )
+  // Check that core path resolves to a directory
+  const normalizedCore = path.normalize(path.resolve(corePath))
+  try {
+    const stats = await fs.stat(normalizedCore)
+    if (!stats.isDirectory()) {
+      throw new Error('not a directory')
+    }
+  } catch {
+    throw new Error(`Core path validation failed: '${normalizedCore}' is not a directory`)
   }
 
   // Check that required paths exist
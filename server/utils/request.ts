@@ -0,0 +1,8 @@
+import type { Request } from 'express'
+
+/**
+ * Check whether a write request asks for a preview only (`?dryRun=true`)
+ */
+export function isDryRun(req: Request): boolean {
+  return req.query.dryRun === 'true'
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { unifiedDiff } from './textDiff.js'
+
+// Lines "1".."count", each followed by a newline
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `${i + 1}\n`).join('')
+
+const hunkHeaders = (diff: string) => diff.split('\n').filter((line) => line.startsWith('@@'))
+
+// Expected headers are what `git diff --no-index` prints for the same files
+describe('unifiedDiff', () => {
+  it('surrounds a change with three lines of context', () => {
+    const result = unifiedDiff('colors_xiv.json', numbered(20), numbered(20).replace('10\n', 'ten\n'))
+    assert.deepEqual(hunkHeaders(result.diff), ['@@ -7,7 +7,7 @@'])
+    assert.equal(result.additions, 1)
+    assert.equal(result.deletions, 1)
+    assert.match(result.diff, /^--- a\/colors_xiv\.json\n\+\+\+ b\/colors_xiv\.json\n/)
+  })
+
+  it('starts a new hunk for changes far apart', () => {
+    const after = numbered(20).replace('\n2\n', '\ntwo\n').replace('18\n', 'eighteen\n')
+    assert.deepEqual(hunkHeaders(unifiedDiff('a.json', numbered(20), after).diff), [
+      '@@ -1,5 +1,5 @@',
+      '@@ -15,6 +15,6 @@',
+    ])
+  })
+
+  it('counts inserted lines only on the new side', () => {
+    const after = numbered(10).replace('5\n', '5\nx\n')
+    assert.deepEqual(hunkHeaders(unifiedDiff('a.json', numbered(10), after).diff), ['@@ -3,6 +3,7 @@'])
+  })
+
+  it('writes single-line and empty ranges like git', () => {
+    assert.deepEqual(hunkHeaders(unifiedDiff('a.json', 'a\n', 'b\n').diff), ['@@ -1 +1 @@'])
+
+    const created = unifiedDiff('locales/ko.json', '', 'a\nb\n')
+    assert.equal(created.diff, '--- /dev/null\n+++ b/locales/ko.json\n@@ -0,0 +1,2 @@\n+a\n+b\n')
+  })
+
+  it('marks a last line without a newline', () => {
+    assert.equal(
+      unifiedDiff('a.json', 'a\nb', 'a\nb\n').diff,
+      '--- a/a.json\n+++ b/a.json\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n'
+    )
+  })
+
+  it('returns no diff for identical contents', () => {
+    assert.deepEqual(unifiedDiff('a.json', 'a\n', 'a\n'), {
+      name: 'a.json',
+      diff: '',
+      additions: 0,
+      deletions: 0,
+    })
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Line-based unified diff (Myers' algorithm)
+ *
+ * Used to preview what a write would change in each data file. The data files
+ * are formatted JSON, so changes are usually a few lines in a large file; the
+ * common prefix and suffix are skipped before diffing the rest.
+ */
+
+/**
+ * Diff of one file, in unified format
+ */
+export interface FileDiff {
+  /** Name relative to the data directory (e.g. "locales/en.json") */
+  name: string
+  /** Unified diff with `--- a/` / `+++ b/` headers and 3 lines of context */
+  diff: string
+  additions: number
+  deletions: number
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+'
+  text: string
+}
+
+// Lines of context around each change
+const CONTEXT_LINES = 3
+
+// Give up on a minimal diff beyond this many changed lines and show the
+// middle section as replaced (bounds time and memory for unrelated contents)
+const MAX_EDIT_DISTANCE = 2000
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file'
+
+/**
+ * Split file contents into lines
+ *
+ * A last line without a trailing newline carries git's marker, so it never
+ * matches the same line with a newline and the marker is printed after it.
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return []
+  }
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  } else {
+    lines[lines.length - 1] += `\n${NO_NEWLINE_MARKER}`
+  }
+  return lines
+}
+
+/**
+ * Shortest edit script between two line arrays
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+        ? v[k + 1 + offset]
+        : v[k - 1 + offset] + 1
+      let y = x - k
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[k + offset] = x
+
+      if (x >= a.length && y >= b.length) {
+        return backtrack(trace, a, b, offset)
+      }
+    }
+  }
+
+  return [
+    ...a.map((text): DiffLine => ({ type: '-', text })),
+    ...b.map((text): DiffLine => ({ type: '+', text })),
+  ]
+}
+
+/**
+ * Walk the recorded search back from the end to recover the edit script
+ */
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffLine[] {
+  const lines: DiffLine[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? k + 1 : k - 1
+    const prevX = v[prevK + offset]
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: ' ', text: a[x - 1] })
+      x--
+      y--
+    }
+    if (d > 0) {
+      lines.push(x === prevX ? { type: '+', text: b[y - 1] } : { type: '-', text: a[x - 1] })
+    }
+    x = prevX
+    y = prevY
+  }
+
+  return lines.reverse()
+}
+
+/**
+ * Diff two line arrays, skipping the common prefix and suffix
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const same = (text: string): DiffLine => ({ type: ' ', text })
+  return [
+    ...a.slice(0, start).map(same),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(same),
+  ]
+}
+
+/**
+ * Format a hunk range like git ("start,count", "start" for one line, and the
+ * line before for an empty range)
+ */
+function hunkRange(start: number, count: number): string {
+  if (count === 1) {
+    return String(start)
+  }
+  return `${count === 0 ? start - 1 : start},${count}`
+}
+
+/**
+ * Build a unified diff between two versions of a file
+ *
+ * @param name - File name shown in the headers
+ * @param before - Current contents ('' for a new file)
+ * @param after - New contents
+ * @returns The diff, with empty `diff` text if the contents are identical
+ */
+export function unifiedDiff(name: string, before: string, after: string): FileDiff {
+  const lines = diffLines(splitLines(before), splitLines(after))
+  const changed = lines.flatMap((line, index) => (line.type === ' ' ? [] : [index]))
+  const result: FileDiff = {
+    name,
+    diff: '',
+    additions: lines.filter((line) => line.type === '+').length,
+    deletions: lines.filter((line) => line.type === '-').length,
+  }
+  if (changed.length === 0) {
+    return result
+  }
+
+  // Group changes whose context overlaps into hunks
+  const hunks: Array<[number, number]> = []
+  for (const index of changed) {
+    const from = Math.max(0, index - CONTEXT_LINES)
+    const to = Math.min(lines.length - 1, index + CONTEXT_LINES)
+    const last = hunks[hunks.length - 1]
+    if (last && from <= last[1] + 1) {
+      last[1] = to
+    } else {
+      hunks.push([from, to])
+    }
+  }
+
+  const output = [before === '' ? '--- /dev/null' : `--- a/${name}`, `+++ b/${name}`]
+  let oldLine = 1
+  let newLine = 1
+  let position = 0
+  for (const [from, to] of hunks) {
+    for (; position < from; position++) {
+      oldLine++
+      newLine++
+    }
+
+    const body: string[] = []
+    let oldCount = 0
+    let newCount = 0
+    for (const line of lines.slice(from, to + 1)) {
+      body.push(line.type + line.text)
+      if (line.type !== '+') oldCount++
+      if (line.type !== '-') newCount++
+    }
+
+    output.push(`@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@`, ...body)
+    oldLine += oldCount
+    newLine += newCount
+    position = to + 1
+  }
+
+  result.diff = output.join('\n') + '\n'
+  return result
+}
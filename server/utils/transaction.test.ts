@@ -0,0 +1,63 @@
+import { after, before, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import { TransactionError, commitFiles, serializeJson } from './transaction.js'
+
+const schema = z.object({ value: z.number() })
+
+describe('commitFiles', () => {
+  let root: string
+  let files: string[]
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'maintainer-test-'))
+    files = ['a.json', 'b.json', 'c.json'].map((name) => path.join(root, name))
+    for (const filePath of files) {
+      await fs.writeFile(filePath, serializeJson({ value: 1 }))
+    }
+  })
+
+  after(async () => {
+    mock.restoreAll()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('puts back the files already replaced when a rename fails', async () => {
+    // Fail the rename of the second file into place
+    const rename = fs.rename
+    mock.method(fs, 'rename', async (from: string, to: string) => {
+      if (to === files[1] && from.endsWith('.tmp')) {
+        throw new Error('disk full')
+      }
+      return rename(from, to)
+    })
+
+    const writes = files.map((filePath) => ({ filePath, data: { value: 2 }, schema }))
+    await assert.rejects(
+      commitFiles(writes),
+      (error) =>
+        error instanceof TransactionError && error.stage === 'commit' && error.filePath === files[1]
+    )
+    mock.restoreAll()
+
+    for (const filePath of files) {
+      assert.equal(await fs.readFile(filePath, 'utf-8'), serializeJson({ value: 1 }))
+    }
+    assert.deepEqual((await fs.readdir(root)).sort(), ['a.json', 'b.json', 'c.json'])
+  })
+
+  it('writes nothing when a file fails validation', async () => {
+    const writes = [
+      { filePath: files[0], data: { value: 3 }, schema },
+      { filePath: files[1], data: { value: 'three' }, schema },
+    ]
+    await assert.rejects(
+      commitFiles(writes),
+      (error) => error instanceof TransactionError && error.stage === 'validate'
+    )
+    assert.equal(await fs.readFile(files[0], 'utf-8'), serializeJson({ value: 1 }))
+  })
+})
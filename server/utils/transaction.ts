@@ -0,0 +1,169 @@
+import fs from 'fs/promises'
+import crypto from 'crypto'
+import { z } from 'zod'
+
+/**
+ * All-or-nothing multi-file writes
+ *
+ * A dye mutation touches `colors_xiv.json` and up to six locale files. Writing
+ * them one by one can leave the core library half-updated if a later write
+ * fails, so mutations go through commitFiles() instead:
+ *
+ * 1. Validate every file's new contents against its schema
+ * 2. Stage each file to a temp file next to the target
+ * 3. Rename the temp files into place (atomic per file on the same volume)
+ * 4. If any rename fails, restore the files already replaced and clean up
+ *
+ * Nothing in the data directory changes unless all files validate and stage.
+ */
+
+/**
+ * A pending write of one JSON data file
+ */
+export interface FileWrite {
+  /** Absolute path of the file to replace */
+  filePath: string
+  /** New file contents (serialized as formatted JSON) */
+  data: unknown
+  /** Schema the new contents must satisfy */
+  schema: z.ZodSchema
+}
+
+/**
+ * Stage of the transaction that failed
+ */
+export type TransactionStage = 'validate' | 'stage' | 'commit'
+
+/**
+ * Error thrown when a transaction is aborted
+ *
+ * When `stage` is 'validate', `validationError` holds the Zod error so routes
+ * can return sanitized details with a 400 response. Any other stage is a
+ * server-side I/O failure.
+ */
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    public readonly stage: TransactionStage,
+    public readonly filePath: string,
+    public readonly validationError?: z.ZodError
+  ) {
+    super(message)
+    this.name = 'TransactionError'
+  }
+}
+
+/**
+ * Serialize data as formatted JSON
+ *
+ * @param data - Data to serialize
+ * @returns File contents with a trailing newline
+ */
+export function serializeJson(data: unknown): string {
+  return JSON.stringify(data, null, 2) + '\n'
+}
+
+/**
+ * Build a unique temp file path next to the target
+ * (same directory, so the final rename never crosses volumes)
+ */
+function tempPathFor(filePath: string, txId: string): string {
+  return `${filePath}.${txId}.tmp`
+}
+
+/**
+ * Remove temp files, ignoring ones that were never created
+ */
+async function removeTempFiles(paths: string[]): Promise<void> {
+  await Promise.all(paths.map((p) => fs.rm(p, { force: true })))
+}
+
+/**
+ * Write a single file atomically (temp file + rename)
+ *
+ * A crash mid-write leaves the previous contents intact instead of a
+ * truncated file.
+ *
+ * @param filePath - Absolute path of the file to replace
+ * @param contents - New file contents
+ */
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  const tempPath = tempPathFor(filePath, crypto.randomBytes(6).toString('hex'))
+  try {
+    await fs.writeFile(tempPath, contents, 'utf-8')
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await removeTempFiles([tempPath])
+    throw error
+  }
+}
+
+/**
+ * Validate every pending write against its schema
+ *
+ * @param writes - Files to validate
+ * @throws TransactionError (stage 'validate') for the first invalid file
+ */
+export function validateWrites(writes: FileWrite[]): void {
+  for (const write of writes) {
+    const result = write.schema.safeParse(write.data)
+    if (!result.success) {
+      throw new TransactionError('Validation failed', 'validate', write.filePath, result.error)
+    }
+  }
+}
+
+/**
+ * Validate, stage and commit several JSON files as one transaction
+ *
+ * @param writes - Files to replace
+ * @throws TransactionError if validation, staging or committing fails
+ *   (the data files are left exactly as they were)
+ */
+export async function commitFiles(writes: FileWrite[]): Promise<void> {
+  // 1. Validate every file before touching the disk
+  // (the original data is written, so keys unknown to the schema are preserved)
+  validateWrites(writes)
+  const contents = writes.map((write) => serializeJson(write.data))
+
+  const txId = crypto.randomBytes(6).toString('hex')
+  const tempPaths = writes.map((write) => tempPathFor(write.filePath, txId))
+
+  // 2. Stage new contents and remember the originals for rollback
+  const originals: string[] = []
+  let staged = 0
+  try {
+    for (; staged < writes.length; staged++) {
+      originals.push(await fs.readFile(writes[staged].filePath, 'utf-8'))
+      await fs.writeFile(tempPaths[staged], contents[staged], 'utf-8')
+    }
+  } catch (error) {
+    await removeTempFiles(tempPaths)
+    throw new TransactionError(
+      `Failed to stage files: ${error instanceof Error ? error.message : String(error)}`,
+      'stage',
+      writes[staged].filePath
+    )
+  }
+
+  // 3. Rename staged files into place, rolling back on the first failure
+  let committed = 0
+  try {
+    for (; committed < writes.length; committed++) {
+      await fs.rename(tempPaths[committed], writes[committed].filePath)
+    }
+  } catch (error) {
+    const failedPath = writes[committed].filePath
+
+    for (let i = 0; i < committed; i++) {
+      await writeFileAtomic(writes[i].filePath, originals[i])
+    }
+    await removeTempFiles(tempPaths.slice(committed))
+
+    throw new TransactionError(
+      `Failed to commit files (rolled back): ${error instanceof Error ? error.message : String(error)}`,
+      'commit',
+      failedPath
+    )
+  }
+}
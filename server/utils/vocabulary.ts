@@ -0,0 +1,192 @@
+import type { DyeInput, LocaleData } from '../schemas.js'
+import { targetManager } from './coreTargets.js'
+import { LOCALE_CODES } from './dataFiles.js'
+import type { DataSet, LocaleCode } from './dataFiles.js'
+import { recordEtag } from './etag.js'
+
+/**
+ * Dye vocabulary: the categories, acquisitions and currencies a dye may use
+ *
+ * Categories and acquisitions are the keys of the English locale file's
+ * `categories` / `acquisitions` maps, so adding one means adding its label
+ * to the locale files. Values that existing dyes already use are always
+ * included, so a dye is never locked out by data written before its label.
+ * Currencies and which acquisitions carry a price are not part of the data
+ * files and come from the target's `vocabulary` config (see coreTargets.ts).
+ */
+
+/**
+ * Vocabularies stored as label maps in the locale files
+ */
+export const VOCABULARY_KINDS = ['categories', 'acquisitions'] as const
+
+export type VocabularyKind = (typeof VOCABULARY_KINDS)[number]
+
+/**
+ * A category or acquisition with its label in each locale
+ */
+export interface VocabularyTerm {
+  key: string
+  /** Label per locale (locales without one are omitted) */
+  labels: Partial<Record<LocaleCode, string>>
+  /** Number of dyes using the term */
+  dyeCount: number
+}
+
+export interface Vocabulary {
+  categories: VocabularyTerm[]
+  acquisitions: VocabularyTerm[]
+  currencies: string[]
+  /** Acquisitions that have a price, with the currency preselected for each */
+  pricedAcquisitions: Record<string, string>
+}
+
+// Dye field holding each kind of term
+const KIND_FIELDS = { categories: 'category', acquisitions: 'acquisition' } as const
+
+/**
+ * Check whether a string is a vocabulary kind
+ *
+ * @param kind - Value to check (typically a route parameter)
+ */
+export function isVocabularyKind(kind: string): kind is VocabularyKind {
+  return (VOCABULARY_KINDS as readonly string[]).includes(kind)
+}
+
+/**
+ * Number of dyes using a category or acquisition
+ */
+export function termDyeCount(dataSet: DataSet, kind: VocabularyKind, key: string): number {
+  return dataSet.dyes.filter((dye) => dye[KIND_FIELDS[kind]] === key).length
+}
+
+/**
+ * List the terms of one kind: English label order first, then values used by
+ * dyes that have no English label yet (in order of first use)
+ */
+function readTerms(dataSet: DataSet, kind: VocabularyKind): VocabularyTerm[] {
+  const keys = new Set(Object.keys(dataSet.locales.en[kind] ?? {}))
+  for (const dye of dataSet.dyes) {
+    keys.add(dye[KIND_FIELDS[kind]])
+  }
+
+  return [...keys].map((key) => {
+    const labels: Partial<Record<LocaleCode, string>> = {}
+    for (const code of LOCALE_CODES) {
+      const label = dataSet.locales[code][kind]?.[key]
+      if (label !== undefined) {
+        labels[code] = label
+      }
+    }
+    return { key, labels, dyeCount: termDyeCount(dataSet, kind, key) }
+  })
+}
+
+/**
+ * Build the vocabulary of the active target
+ *
+ * @param dataSet - Current data files
+ */
+export function readVocabulary(dataSet: DataSet): Vocabulary {
+  const { currencies, pricedAcquisitions } = targetManager.active().vocabulary
+
+  const usedCurrencies = dataSet.dyes
+    .map((dye) => dye.currency)
+    .filter((currency): currency is string => currency !== null)
+
+  return {
+    categories: readTerms(dataSet, 'categories'),
+    acquisitions: readTerms(dataSet, 'acquisitions'),
+    currencies: [...new Set([...currencies, ...usedCurrencies])],
+    pricedAcquisitions,
+  }
+}
+
+/**
+ * Entity tag of the categories and acquisitions with their labels
+ *
+ * Dye counts are left out, so adding or editing dyes does not make an open
+ * Vocabulary view stale.
+ */
+export function vocabularyEtag(vocabulary: Vocabulary): string {
+  const labels = (terms: VocabularyTerm[]) => terms.map(({ key, labels }) => ({ key, labels }))
+  return recordEtag({
+    categories: labels(vocabulary.categories),
+    acquisitions: labels(vocabulary.acquisitions),
+  })
+}
+
+/**
+ * Check a dye's category, acquisition and currency against the vocabulary
+ *
+ * Only the fields present are checked, so a partial update is checked for
+ * the fields it changes.
+ *
+ * @param dye - Submitted dye fields
+ * @param vocabulary - Vocabulary of the active target
+ * @returns One message per field with a value outside the vocabulary
+ */
+export function checkVocabulary(dye: Partial<DyeInput>, vocabulary: Vocabulary): string[] {
+  const errors: string[] = []
+  const has = (terms: VocabularyTerm[], key: string) => terms.some((term) => term.key === key)
+
+  if (dye.category !== undefined && !has(vocabulary.categories, dye.category)) {
+    errors.push('Category is not in the vocabulary')
+  }
+  if (dye.acquisition !== undefined && !has(vocabulary.acquisitions, dye.acquisition)) {
+    errors.push('Acquisition is not in the vocabulary')
+  }
+  if (dye.currency && !vocabulary.currencies.includes(dye.currency)) {
+    errors.push('Currency is not in the vocabulary')
+  }
+  return errors
+}
+
+/**
+ * Add or relabel a category or acquisition in every locale file
+ *
+ * Blank labels are left out of that locale's map (reported as missing by the
+ * integrity checker and the translation grid).
+ *
+ * @param locales - Contents of all locale files (mutated in place)
+ * @param kind - Vocabulary being edited
+ * @param key - The term, as stored on dyes
+ * @param labels - Label per locale (English is required by the schema)
+ * @returns Locale files that changed
+ */
+export function setTermLabels(
+  locales: Record<LocaleCode, LocaleData>,
+  kind: VocabularyKind,
+  key: string,
+  labels: Partial<Record<LocaleCode, string>>
+): LocaleCode[] {
+  return LOCALE_CODES.filter((code) => {
+    const labelMap = { ...locales[code][kind] }
+    const label = labels[code]?.trim() ?? ''
+    if (label) {
+      labelMap[key] = label
+    } else {
+      delete labelMap[key]
+    }
+
+    if (JSON.stringify(labelMap) === JSON.stringify(locales[code][kind] ?? {})) {
+      return false
+    }
+    locales[code][kind] = labelMap
+    return true
+  })
+}
+
+/**
+ * Remove a category or acquisition from every locale file
+ *
+ * @param locales - Contents of all locale files (mutated in place)
+ * @returns Locale files that changed
+ */
+export function removeTerm(
+  locales: Record<LocaleCode, LocaleData>,
+  kind: VocabularyKind,
+  key: string
+): LocaleCode[] {
+  return setTermLabels(locales, kind, key, {})
+}
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express'
+import { Logger } from './logger.js'
+import { TransactionError } from './transaction.js'
+import { sanitizeZodError } from '../middleware/errorSanitizer.js'
+
+/**
+ * Send the response for a failed data file write
+ *
+ * SECURITY: Validation failures return sanitized details (400); I/O failures
+ * are logged server-side and return only a generic message (500).
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param error - Error thrown by the write (usually a TransactionError)
+ * @param message - Generic client-facing message for server-side failures
+ */
+export function sendWriteError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof TransactionError && error.validationError) {
+    Logger.warn('Data file validation failed', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      file: error.filePath,
+      issues: error.validationError.issues,
+    })
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: sanitizeZodError(error.validationError),
+    })
+    return
+  }
+
+  Logger.error(message, {
+    requestId: req.requestId,
+    method: req.method,
+    path: req.path,
+    stage: error instanceof TransactionError ? error.stage : undefined,
+    error: error instanceof Error ? error.message : String(error),
+    ip: req.ip,
+  })
+  res.status(500).json({ success: false, error: message })
+}
@@ -0,0 +1,40 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { XivapiClient } from '../xivapi/XivapiClient.js'
+
+/**
+ * XIVAPI proxy
+ *
+ * The browser looks up item names through the server, which caches every
+ * answer in `cache/xivapi/`. Set `XIVAPI_OFFLINE=true` to serve only cached
+ * names (no network access, e.g. when travelling or in tests with a seeded
+ * cache).
+ */
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+// Languages XIVAPI serves
+export const XIVAPI_LANGUAGES = ['en', 'ja', 'de', 'fr']
+
+// Endpoint, cache location, TTL, retries and offline mode (configurable via environment)
+const XIVAPI_BASE_URL = process.env.XIVAPI_BASE_URL || 'https://v2.xivapi.com/api'
+const XIVAPI_CACHE_DIR = process.env.XIVAPI_CACHE_DIR
+  ? path.resolve(process.env.XIVAPI_CACHE_DIR)
+  : path.resolve(__dirname, '../../cache/xivapi')
+const XIVAPI_CACHE_TTL_HOURS = parseFloat(process.env.XIVAPI_CACHE_TTL_HOURS || String(7 * 24))
+const XIVAPI_RETRIES = parseInt(process.env.XIVAPI_RETRIES || '2', 10)
+const XIVAPI_OFFLINE = ['1', 'true'].includes((process.env.XIVAPI_OFFLINE || '').toLowerCase())
+
+// Create singleton XIVAPI client
+// Worst case per language (3 attempts of 5s plus 1.5s of backoff) stays
+// under the 30s request timeout
+export const xivapi = new XivapiClient({
+  baseUrl: XIVAPI_BASE_URL,
+  cacheDir: XIVAPI_CACHE_DIR,
+  ttlMs: XIVAPI_CACHE_TTL_HOURS * 60 * 60 * 1000,
+  offline: XIVAPI_OFFLINE,
+  retries: XIVAPI_RETRIES,
+  retryDelayMs: 500,
+  timeoutMs: 5000,
+})
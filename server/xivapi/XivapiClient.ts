@@ -0,0 +1,513 @@
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+
+export interface XivapiClientOptions {
+  /** XIVAPI root (e.g. "https://v2.xivapi.com/api") */
+  baseUrl: string
+  /** Directory holding one `<language>/<itemId>.json` entry per lookup and `search/` */
+  cacheDir: string
+  /** Age after which a cached entry is fetched again (0 = always refetch) */
+  ttlMs: number
+  /** Serve only cached entries and never contact XIVAPI */
+  offline: boolean
+  /** Retries after a failed request (network error, timeout, 429 or 5xx) */
+  retries: number
+  /** Delay before the first retry; doubled for each further retry */
+  retryDelayMs: number
+  /** Time allowed for one request */
+  timeoutMs: number
+}
+
+/**
+ * Response of `GET /sheet/Item?rows=<id>` (only the fields read here)
+ */
+interface XivapiItemResponse {
+  rows?: Array<{
+    row_id: number
+    fields: { Name?: string }
+  }>
+}
+
+/**
+ * Response of `GET /search?sheets=Item` (only the fields read here)
+ */
+interface XivapiSearchResponse {
+  results?: Array<{
+    row_id: number
+    fields: Record<string, unknown>
+  }>
+  /** Cursor of the next page, if there is one */
+  next?: string
+}
+
+/**
+ * A cached lookup, stored as `<cacheDir>/<language>/<itemId>.json`
+ *
+ * `name` is null when XIVAPI has no such item (cached too, so unknown IDs are
+ * not looked up again until the entry expires).
+ */
+export interface XivapiCacheEntry {
+  itemId: number
+  language: string
+  name: string | null
+  fetchedAt: string
+}
+
+/**
+ * An item found by a name search
+ */
+export interface XivapiSearchResult {
+  itemId: number
+  /** Name per language (dye prefix included) */
+  names: Record<string, string>
+  /** Icon asset path (e.g. "ui/icon/020000/020101.tex"), if any */
+  icon: string | null
+}
+
+/**
+ * A cached search, stored as `<cacheDir>/search/<hash of the query>.json`
+ */
+export interface XivapiSearchEntry {
+  query: string
+  results: XivapiSearchResult[]
+  fetchedAt: string
+}
+
+/**
+ * Where a lookup was answered from
+ * - network: fetched from XIVAPI (and cached)
+ * - cache: a cached entry within the TTL (or any cached entry when offline)
+ * - stale: an expired cached entry, used because XIVAPI could not be reached
+ */
+export type XivapiSource = 'network' | 'cache' | 'stale'
+
+/**
+ * Result of looking up one item in several languages
+ */
+export interface XivapiLookup {
+  /** Name per language, as the game writes it (dye prefix included) */
+  names: Record<string, string>
+  /** Where each language found was answered from */
+  sources: Record<string, XivapiSource>
+  errors: string[]
+}
+
+export interface XivapiCacheStatus {
+  offline: boolean
+  ttlHours: number
+  /** Cached entries per language */
+  entries: Record<string, number>
+  /** Cached searches */
+  searches: number
+}
+
+/**
+ * Thrown when XIVAPI cannot answer (after retries) and nothing is cached
+ */
+export class XivapiUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'XivapiUnavailableError'
+  }
+}
+
+// Failures worth retrying: rate limiting and server errors
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504])
+
+// Cache subdirectory for searches (the others are named after languages)
+const SEARCH_DIR = 'search'
+
+// ItemUICategory row of dyes
+export const DYE_ITEM_UI_CATEGORY = 55
+
+// Results per page when listing every dye, and the most pages followed
+const LIST_PAGE_SIZE = 100
+const LIST_MAX_PAGES = 20
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Signal for one request: aborts after `timeoutMs` or when `signal` aborts
+ *
+ * @returns The signal and a function that releases its timer and listener
+ */
+function requestSignal(
+  timeoutMs: number,
+  signal?: AbortSignal
+): { signal: AbortSignal; release: () => void } {
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () => controller.abort(new DOMException('The operation timed out', 'TimeoutError')),
+    timeoutMs
+  )
+  const onAbort = () => controller.abort(signal?.reason)
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  return {
+    signal: controller.signal,
+    release: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
+/**
+ * XivapiClient
+ *
+ * Looks up and searches item names on XIVAPI for the browser, with every
+ * answer cached on disk (lookups per item and language, searches per query).
+ * Cached entries younger than the TTL are served without a request; failed
+ * requests are retried with exponential backoff, and an expired entry is
+ * still served if XIVAPI stays unreachable. In offline mode only the cache is
+ * read, so lookups work without a network and tests can run against a seeded
+ * cache directory. Lookups take an optional AbortSignal that stops waiting
+ * for XIVAPI (and retrying) once it aborts.
+ *
+ * Layout:
+ * ```
+ * cache/xivapi/
+ *   en/5729.json
+ *   ja/5729.json
+ *   search/<sha1 of the query>.json
+ * ```
+ */
+export class XivapiClient {
+  constructor(private readonly options: XivapiClientOptions) {}
+
+  get offline(): boolean {
+    return this.options.offline
+  }
+
+  private entryPath(itemId: number, language: string): string {
+    return path.join(this.options.cacheDir, language, `${itemId}.json`)
+  }
+
+  private searchPath(query: string): string {
+    const hash = crypto.createHash('sha1').update(query).digest('hex')
+    return path.join(this.options.cacheDir, SEARCH_DIR, `${hash}.json`)
+  }
+
+  private async readEntry<T extends { fetchedAt: string }>(filePath: string): Promise<T | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as T
+      return typeof entry.fetchedAt === 'string' ? entry : null
+    } catch {
+      // Missing or unreadable entry: treat as not cached
+      return null
+    }
+  }
+
+  private async writeEntry(filePath: string, entry: object): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(entry, null, 2) + '\n', 'utf-8')
+  }
+
+  private isFresh(entry: { fetchedAt: string }): boolean {
+    return Date.now() - Date.parse(entry.fetchedAt) < this.options.ttlMs
+  }
+
+  /**
+   * Answer from the cache entry at `filePath` if it is fresh (or offline
+   * mode is on), otherwise fetch a new entry and cache it
+   *
+   * @param fetchEntry - Fetches the entry from XIVAPI
+   * @param force - Fetch even if the cached entry is fresh (ignored offline)
+   * @param signal - Aborts the fetch (its reason is thrown, even if a stale
+   *   entry is cached)
+   * @returns The entry and where it came from
+   * @throws XivapiUnavailableError if XIVAPI cannot be reached (or offline
+   *   mode is on) and nothing is cached
+   */
+  private async cached<T extends { fetchedAt: string }>(
+    filePath: string,
+    fetchEntry: () => Promise<T>,
+    force = false,
+    signal?: AbortSignal
+  ): Promise<{ entry: T; source: XivapiSource }> {
+    const cached = await this.readEntry<T>(filePath)
+
+    if (this.options.offline) {
+      if (!cached) {
+        throw new XivapiUnavailableError('Not in the offline cache')
+      }
+      return { entry: cached, source: 'cache' }
+    }
+
+    if (!force && cached && this.isFresh(cached)) {
+      return { entry: cached, source: 'cache' }
+    }
+
+    try {
+      const entry = await fetchEntry()
+      await this.writeEntry(filePath, entry)
+      return { entry, source: 'network' }
+    } catch (error) {
+      signal?.throwIfAborted()
+      if (cached) {
+        return { entry: cached, source: 'stale' }
+      }
+      const message = error instanceof Error ? error.message : String(error)
+      throw new XivapiUnavailableError(message)
+    }
+  }
+
+  /**
+   * GET a path of XIVAPI, retrying transient failures
+   *
+   * @param pathAndQuery - Path below the base URL, with its query string
+   * @param signal - Stops the request and any retries
+   * @throws Error once every attempt has failed
+   * @throws The signal's reason once it aborts
+   */
+  private async request<T>(pathAndQuery: string, signal?: AbortSignal): Promise<T> {
+    const url = `${this.options.baseUrl}${pathAndQuery}`
+    let lastError: Error = new Error('No request made')
+
+    for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.options.retryDelayMs * 2 ** (attempt - 1))
+      }
+      signal?.throwIfAborted()
+
+      const attemptSignal = requestSignal(this.options.timeoutMs, signal)
+      try {
+        let response: Response
+        try {
+          response = await fetch(url, { signal: attemptSignal.signal })
+        } catch (error) {
+          signal?.throwIfAborted()
+          lastError = error instanceof Error ? error : new Error(String(error))
+          continue
+        }
+
+        if (!response.ok) {
+          lastError = new Error(`HTTP ${response.status}`)
+          if (RETRY_STATUSES.has(response.status)) continue
+          throw lastError
+        }
+
+        return (await response.json()) as T
+      } finally {
+        attemptSignal.release()
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Look up an item's name in one language
+   *
+   * @param signal - Stops the lookup (its reason is thrown)
+   * @returns The name (null if XIVAPI has no such item) and where it came from
+   * @throws XivapiUnavailableError if XIVAPI cannot be reached (or offline
+   *   mode is on) and the lookup is not cached
+   */
+  async getName(
+    itemId: number,
+    language: string,
+    signal?: AbortSignal
+  ): Promise<{ name: string | null; source: XivapiSource }> {
+    const { entry, source } = await this.cached<XivapiCacheEntry>(
+      this.entryPath(itemId, language),
+      async () => {
+        const data = await this.request<XivapiItemResponse>(
+          `/sheet/Item?rows=${itemId}&language=${language}`,
+          signal
+        )
+        const name = data.rows?.[0]?.fields.Name || null
+        return { itemId, language, name, fetchedAt: new Date().toISOString() }
+      },
+      false,
+      signal
+    )
+    return { name: entry.name, source }
+  }
+
+  /**
+   * Look up an item's name in several languages (in parallel)
+   *
+   * Languages that fail are reported in `errors` instead of failing the
+   * whole lookup.
+   *
+   * @param signal - Stops the lookup (its reason is thrown)
+   */
+  async getNames(itemId: number, languages: string[], signal?: AbortSignal): Promise<XivapiLookup> {
+    const result: XivapiLookup = { names: {}, sources: {}, errors: [] }
+
+    const lookups = await Promise.allSettled(
+      languages.map((language) => this.getName(itemId, language, signal))
+    )
+    signal?.throwIfAborted()
+    lookups.forEach((lookup, index) => {
+      const language = languages[index]
+      if (lookup.status === 'rejected') {
+        const message = lookup.reason instanceof Error ? lookup.reason.message : String(lookup.reason)
+        result.errors.push(`Failed to fetch ${language}: ${message}`)
+      } else if (lookup.value.name === null) {
+        result.errors.push(`No data found for ${language}`)
+      } else {
+        result.names[language] = lookup.value.name
+        result.sources[language] = lookup.value.source
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Read the results of a search page with the names in each language
+   */
+  private toSearchResults(data: XivapiSearchResponse, languages: string[]): XivapiSearchResult[] {
+    return (data.results ?? []).map((row) => {
+      const names: Record<string, string> = {}
+      for (const language of languages) {
+        const name = row.fields[`Name@${language}`]
+        if (typeof name === 'string' && name) {
+          names[language] = name
+        }
+      }
+      const icon = row.fields.Icon as { path?: string } | undefined
+      return { itemId: row.row_id, names, icon: icon?.path ?? null }
+    })
+  }
+
+  /**
+   * Cache the names found by a search as name lookups, so fetching the names
+   * of a result afterwards needs no request
+   */
+  private async cacheNames(results: XivapiSearchResult[], fetchedAt: string): Promise<void> {
+    for (const result of results) {
+      for (const [language, name] of Object.entries(result.names)) {
+        await this.writeEntry(this.entryPath(result.itemId, language), {
+          itemId: result.itemId,
+          language,
+          name,
+          fetchedAt,
+        })
+      }
+    }
+  }
+
+  /**
+   * Search the dye items whose name contains the query in any of the languages
+   *
+   * @param query - Part of a name (quotes are ignored)
+   * @param languages - Languages to match and return names in
+   * @param limit - Maximum number of results
+   * @throws XivapiUnavailableError if XIVAPI cannot be reached (or offline
+   *   mode is on) and the search is not cached
+   */
+  async searchDyes(
+    query: string,
+    languages: string[],
+    limit: number
+  ): Promise<{ results: XivapiSearchResult[]; source: XivapiSource }> {
+    const term = query.replace(/["\\]/g, '').trim()
+    const nameClauses = languages.map((language) => `Name@${language}~"${term}"`).join(' ')
+    const xivapiQuery = `+ItemUICategory=${DYE_ITEM_UI_CATEGORY} +(${nameClauses})`
+    const fields = [...languages.map((language) => `Name@${language}`), 'Icon'].join(',')
+
+    const { entry, source } = await this.cached<XivapiSearchEntry>(
+      this.searchPath(`${xivapiQuery}|${limit}`),
+      async () => {
+        const data = await this.request<XivapiSearchResponse>(
+          `/search?sheets=Item&query=${encodeURIComponent(xivapiQuery)}` +
+            `&fields=${encodeURIComponent(fields)}&limit=${limit}`
+        )
+        const fetchedAt = new Date().toISOString()
+        const results = this.toSearchResults(data, languages)
+        await this.cacheNames(results, fetchedAt)
+        return { query: term, results, fetchedAt }
+      }
+    )
+    return { results: entry.results, source }
+  }
+
+  /**
+   * List every dye item (all pages of the dye ItemUICategory)
+   *
+   * @param languages - Languages to return names in
+   * @param force - Fetch the list again even if the cached one is fresh
+   * @param signal - Stops paging (its reason is thrown; nothing is cached)
+   * @throws XivapiUnavailableError if XIVAPI cannot be reached (or offline
+   *   mode is on) and the list is not cached
+   */
+  async listDyes(
+    languages: string[],
+    force = false,
+    signal?: AbortSignal
+  ): Promise<{ results: XivapiSearchResult[]; source: XivapiSource; fetchedAt: string }> {
+    const xivapiQuery = `+ItemUICategory=${DYE_ITEM_UI_CATEGORY}`
+    const fields = [...languages.map((language) => `Name@${language}`), 'Icon'].join(',')
+
+    const { entry, source } = await this.cached<XivapiSearchEntry>(
+      this.searchPath(`${xivapiQuery}|${fields}|all`),
+      async () => {
+        const results: XivapiSearchResult[] = []
+        let data = await this.request<XivapiSearchResponse>(
+          `/search?sheets=Item&query=${encodeURIComponent(xivapiQuery)}` +
+            `&fields=${encodeURIComponent(fields)}&limit=${LIST_PAGE_SIZE}`,
+          signal
+        )
+        for (let page = 1; ; page++) {
+          results.push(...this.toSearchResults(data, languages))
+          if (!data.next || page >= LIST_MAX_PAGES) break
+          data = await this.request<XivapiSearchResponse>(
+            `/search?cursor=${encodeURIComponent(data.next)}&limit=${LIST_PAGE_SIZE}`,
+            signal
+          )
+        }
+
+        const fetchedAt = new Date().toISOString()
+        await this.cacheNames(results, fetchedAt)
+        return { query: xivapiQuery, results, fetchedAt }
+      },
+      force,
+      signal
+    )
+    return { results: entry.results, source, fetchedAt: entry.fetchedAt }
+  }
+
+  /**
+   * URL of an icon asset as PNG
+   *
+   * @param icon - Asset path from a search result
+   */
+  iconUrl(icon: string): string {
+    return `${this.options.baseUrl}/asset?path=${encodeURIComponent(icon)}&format=png`
+  }
+
+  /**
+   * Mode, TTL and number of cached entries per language and searches
+   */
+  async status(): Promise<XivapiCacheStatus> {
+    const entries: Record<string, number> = {}
+    let searches = 0
+    try {
+      for (const dirent of await fs.readdir(this.options.cacheDir, { withFileTypes: true })) {
+        if (!dirent.isDirectory()) continue
+        const files = await fs.readdir(path.join(this.options.cacheDir, dirent.name))
+        const count = files.filter((file) => file.endsWith('.json')).length
+        if (dirent.name === SEARCH_DIR) {
+          searches = count
+        } else {
+          entries[dirent.name] = count
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+    }
+
+    return {
+      offline: this.options.offline,
+      ttlHours: this.options.ttlMs / (60 * 60 * 1000),
+      entries,
+      searches,
+    }
+  }
+}
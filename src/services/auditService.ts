@@ -0,0 +1,25 @@
+/**
+ * Audit Service - API client for the persisted audit log
+ */
+
+import type { AuditFilter, AuditLogPage } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE } from './fileService'
+
+/**
+ * Read audit log entries matching a filter (newest first)
+ */
+export async function getAuditLog(filter: AuditFilter = {}): Promise<AuditLogPage> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value))
+    }
+  }
+
+  const response = await fetchWithTimeout(`${SERVER_BASE}/audit?${params}`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to read audit log')
+  }
+  return response.json()
+}
@@ -0,0 +1,50 @@
+/**
+ * Backup Service - API client for data file backups
+ */
+
+import type { BackupSummary, WriteResult } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE, getMutationHeaders, withDryRun } from './fileService'
+
+/**
+ * List backups, newest first
+ */
+export async function listBackups(): Promise<BackupSummary[]> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/backups`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to list backups')
+  }
+  const data = await response.json()
+  return data.backups
+}
+
+/**
+ * Take a manual backup of the current data files
+ */
+export async function createBackup(): Promise<WriteResult> {
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/backups`,
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
+
+/**
+ * Restore every file in a backup over the live data files
+ * (with `dryRun`, only return the diffs the restore would make)
+ */
+export async function restoreBackup(id: string, dryRun = false): Promise<WriteResult> {
+  const response = await fetchWithTimeout(
+    withDryRun(`${SERVER_BASE}/backups/${encodeURIComponent(id)}/restore`, dryRun),
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
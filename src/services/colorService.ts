@@ -3,7 +3,7 @@
  */
 
 import { ColorService, isValidHexColor } from '@xivdyetools/core'
-import type { RGB, HSV } from '@/types'
+import type { RGB, HSV, DyeRecord } from '@/types'
 
 /**
  * Convert hex color to RGB
@@ -13,10 +13,15 @@ export function hexToRgb(hex: string): RGB {
 }
 
 /**
- * Convert hex color to HSV
+ * Convert hex color to HSV, rounded to 2 decimals the way the server writes it
  */
 export function hexToHsv(hex: string): HSV {
-  return ColorService.hexToHsv(hex)
+  const hsv = ColorService.hexToHsv(hex)
+  return {
+    h: Number(hsv.h.toFixed(2)),
+    s: Number(hsv.s.toFixed(2)),
+    v: Number(hsv.v.toFixed(2)),
+  }
 }
 
 /**
@@ -53,4 +58,91 @@ export function normalizeHex(hex: string): string {
   return normalized.toLowerCase()
 }
 
+/**
+ * Color in the OKLab perceptual color space
+ */
+export interface OKLab {
+  L: number
+  a: number
+  b: number
+}
+
+/**
+ * Convert an sRGB channel (0-255) to linear light
+ */
+function srgbToLinear(channel: number): number {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+/**
+ * Convert RGB to OKLab
+ * @see https://bottosson.github.io/posts/oklab/
+ */
+export function rgbToOklab(rgb: RGB): OKLab {
+  const r = srgbToLinear(rgb.r)
+  const g = srgbToLinear(rgb.g)
+  const b = srgbToLinear(rgb.b)
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+  return {
+    L: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  }
+}
+
+/**
+ * Perceptual distance between two hex colors
+ *
+ * Euclidean distance in OKLab, scaled by 100 (identical colors are 0). A
+ * just-noticeable difference is about 0.02 in OKLab, so about 2 on this scale.
+ */
+export function colorDistance(hexA: string, hexB: string): number {
+  const a = rgbToOklab(hexToRgb(hexA))
+  const b = rgbToOklab(hexToRgb(hexB))
+  return Math.hypot(a.L - b.L, a.a - b.a, a.b - b.b) * 100
+}
+
+/**
+ * An existing dye whose color is close to a candidate color
+ */
+export interface NearDuplicate {
+  record: DyeRecord
+  distance: number
+}
+
+/**
+ * Find existing dyes perceptually close to a color
+ *
+ * @param hex - Candidate color (must be valid)
+ * @param records - Existing dyes to compare against
+ * @param threshold - Maximum distance (see colorDistance) to report
+ * @param excludeItemId - Dye to skip (the one being edited)
+ * @returns Matches sorted by distance, closest first
+ */
+export function findNearDuplicates(
+  hex: string,
+  records: DyeRecord[],
+  threshold: number,
+  excludeItemId: number | null = null
+): NearDuplicate[] {
+  const matches: NearDuplicate[] = []
+
+  for (const record of records) {
+    if (excludeItemId !== null && record.dye.itemID === excludeItemId) continue
+    if (!isValidHexColor(record.dye.hex)) continue
+
+    const distance = colorDistance(hex, record.dye.hex)
+    if (distance <= threshold) {
+      matches.push({ record, distance })
+    }
+  }
+
+  return matches.sort((a, b) => a.distance - b.distance)
+}
+
 export { isValidHexColor }
@@ -0,0 +1,23 @@
+/**
+ * Event Service - Server-sent events for changes to the core data files
+ */
+
+import type { DataChangeEvent } from '@/types'
+import { SERVER_BASE } from './fileService'
+
+/**
+ * Listen for data file changes (external edits, git checkouts, other tabs)
+ *
+ * EventSource reconnects on its own if the server restarts; nothing is
+ * replayed, so listeners should reload whatever they show on every event.
+ *
+ * @param onChange - Called once per batch of changed files
+ * @returns Function that closes the stream
+ */
+export function subscribeToDataChanges(onChange: (event: DataChangeEvent) => void): () => void {
+  const source = new EventSource(`${SERVER_BASE}/events`)
+  source.addEventListener('change', (event) => {
+    onChange(JSON.parse((event as MessageEvent<string>).data))
+  })
+  return () => source.close()
+}
@@ -0,0 +1,37 @@
+/**
+ * Export Service - Download the dye database in spreadsheet and palette formats
+ */
+
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE } from './fileService'
+
+export const EXPORT_FORMATS = [
+  { id: 'csv', label: 'CSV (one column per locale)' },
+  { id: 'json', label: 'Flattened JSON' },
+  { id: 'gpl', label: 'GIMP palette (.gpl)' },
+  { id: 'ase', label: 'Adobe swatches (.ase)' },
+  { id: 'css', label: 'CSS custom properties' },
+] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]['id']
+
+/**
+ * Download an export of the given dyes
+ *
+ * @param format - Output format
+ * @param itemIds - Dyes to include, in order (null exports every dye)
+ */
+export async function downloadExport(format: ExportFormat, itemIds: number[] | null): Promise<void> {
+  const query = itemIds ? `?itemIds=${itemIds.join(',')}` : ''
+  const response = await fetchWithTimeout(`${SERVER_BASE}/export/${format}${query}`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to export dyes')
+  }
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `xiv-dyes.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -2,10 +2,21 @@
  * File Service - API client for the Express backend server
  */
 
-import type { Dye, LocaleData, LocaleCode, WriteResult } from '@/types'
+import type {
+  Dye,
+  DyeInput,
+  DyePatch,
+  DyeRecord,
+  DyeWriteResult,
+  ImportResult,
+  LocaleCode,
+  LocaleData,
+  Versioned,
+  WriteResult,
+} from '@/types'
 import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
 
-const SERVER_BASE = 'http://localhost:3001/api'
+export const SERVER_BASE = 'http://localhost:3001/api'
 
 /**
  * Session token for authentication
@@ -49,14 +60,38 @@ async function getSessionToken(): Promise<string> {
 
 /**
  * Create headers for mutation requests (includes session token)
+ *
+ * @param etag - ETag of the content being replaced, sent as If-Match
  */
-function getMutationHeaders(): HeadersInit {
+export function getMutationHeaders(etag?: string): HeadersInit {
   return {
     'Content-Type': 'application/json',
     'X-Session-Token': sessionToken!,
+    ...(etag ? { 'If-Match': etag } : {}),
   }
 }
 
+/**
+ * Read the ETag a read returned (required for the matching write)
+ */
+export function responseEtag(response: Response): string {
+  const etag = response.headers.get('ETag')
+  if (!etag) {
+    throw new Error('Server response is missing an ETag')
+  }
+  return etag
+}
+
+/**
+ * Append `?dryRun=true` to a write endpoint when only a preview is wanted
+ *
+ * Dry runs are validated like real writes but return a diff of each file
+ * that would change instead of writing.
+ */
+export function withDryRun(url: string, dryRun: boolean): string {
+  return dryRun ? `${url}?dryRun=true` : url
+}
+
 /**
  * Check if the server is running
  * Also establishes a session for authenticated mutations
@@ -79,72 +114,82 @@ export async function checkServerHealth(): Promise<boolean> {
 }
 
 /**
- * Read colors_xiv.json
+ * Check if an item ID already exists
  */
-export async function readColorsJson(): Promise<Dye[]> {
-  const response = await fetchWithTimeout(`${SERVER_BASE}/colors`, {}, 15000)
+export async function checkDuplicateItemId(itemId: number): Promise<boolean> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/validate/${itemId}`, {}, 15000)
   if (!response.ok) {
-    throw new Error('Failed to read colors file')
+    throw new Error('Failed to validate item ID')
   }
-  return response.json()
+  const data = await response.json()
+  return data.exists
 }
 
 /**
- * Write colors_xiv.json
+ * List every dye with its names from all locale files
  */
-export async function writeColorsJson(dyes: Dye[]): Promise<WriteResult> {
-  const response = await fetchWithTimeout(
-    `${SERVER_BASE}/colors`,
-    {
-      method: 'POST',
-      headers: getMutationHeaders(),
-      body: JSON.stringify(dyes),
-    },
-    30000 // 30s timeout for file write operations
-  )
-  return response.json()
+export async function listDyeRecords(): Promise<DyeRecord[]> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/dyes`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to list dyes')
+  }
+  const data = await response.json()
+  return data.dyes
 }
 
 /**
- * Read a locale JSON file
+ * Read a single dye with its names from every locale file
+ *
+ * The ETag identifies this version of the dye; updating, retiring or deleting
+ * it requires the ETag so changes made elsewhere are not overwritten.
  */
-export async function readLocaleJson(locale: LocaleCode): Promise<LocaleData> {
-  const response = await fetchWithTimeout(`${SERVER_BASE}/locale/${locale}`, {}, 15000)
+export async function readDyeRecord(itemId: number): Promise<Versioned<DyeRecord>> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/dyes/${itemId}`, {}, 15000)
+  if (response.status === 404) {
+    throw new Error(`Item ID ${itemId} is not in the database`)
+  }
   if (!response.ok) {
-    throw new Error(`Failed to read locale file: ${locale}`)
+    throw new Error('Failed to read dye')
   }
-  return response.json()
+  return { data: await response.json(), etag: responseEtag(response) }
 }
 
 /**
- * Write a locale JSON file
+ * Read a whole locale file
+ *
+ * The ETag identifies this version of the file; writing it back requires it.
  */
-export async function writeLocaleJson(
-  locale: LocaleCode,
-  data: LocaleData
-): Promise<WriteResult> {
+export async function readLocaleFile(code: LocaleCode): Promise<Versioned<LocaleData>> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/locale/${code}`, {}, 15000)
+  if (!response.ok) {
+    throw new Error(`Failed to read locale file: ${code}`)
+  }
+  return { data: await response.json(), etag: responseEtag(response) }
+}
+
+/**
+ * Replace a whole locale file (validated with LocaleDataSchema on the server)
+ *
+ * @param etag - ETag from readLocaleFile (409 if the file changed since)
+ * @returns The result, with the file's new ETag after a successful write
+ */
+export async function writeLocaleFile(
+  code: LocaleCode,
+  data: LocaleData,
+  etag: string,
+  dryRun = false
+): Promise<WriteResult & { etag?: string }> {
   const response = await fetchWithTimeout(
-    `${SERVER_BASE}/locale/${locale}`,
+    withDryRun(`${SERVER_BASE}/locale/${code}`, dryRun),
     {
       method: 'POST',
-      headers: getMutationHeaders(),
+      headers: getMutationHeaders(etag),
       body: JSON.stringify(data),
     },
     30000 // 30s timeout for file write operations
   )
-  return response.json()
-}
-
-/**
- * Check if an item ID already exists
- */
-export async function checkDuplicateItemId(itemId: number): Promise<boolean> {
-  const response = await fetchWithTimeout(`${SERVER_BASE}/validate/${itemId}`, {}, 15000)
-  if (!response.ok) {
-    throw new Error('Failed to validate item ID')
-  }
-  const data = await response.json()
-  return data.exists
+  const result: WriteResult = await response.json()
+  return { ...result, etag: response.headers.get('ETag') ?? undefined }
 }
 
 /**
@@ -158,59 +203,212 @@ export async function getLocaleLabels(): Promise<Record<string, string>> {
   return response.json()
 }
 
+/**
+ * Strip the values the server derives from hex before sending a dye
+ */
+function dyeInput(dye: Dye): DyeInput {
+  const { rgb: _rgb, hsv: _hsv, ...input } = dye
+  return input
+}
+
+/**
+ * The record a dye write returned (absent for dry runs)
+ */
+function writtenRecord(result: Partial<DyeRecord>): DyeRecord | undefined {
+  if (!result.dye || !result.localeNames) {
+    return undefined
+  }
+  return { dye: result.dye, localeNames: result.localeNames }
+}
+
 /**
  * Add a new dye to the database
+ *
+ * The server derives rgb/hsv from the hex and writes colors_xiv.json and all
+ * six locale files as one transaction, so a failure leaves every file
+ * untouched. The result carries the written record and its ETag.
  */
 export async function addDyeToDatabase(
   dye: Dye,
-  localeNames: Record<LocaleCode, string>
-): Promise<{ success: boolean; errors: string[] }> {
-  const errors: string[] = []
-
+  localeNames: Record<LocaleCode, string>,
+  dryRun = false
+): Promise<DyeWriteResult> {
   try {
-    // 1. Read current colors
-    const dyes = await readColorsJson()
+    const response = await fetchWithTimeout(
+      withDryRun(`${SERVER_BASE}/dyes`, dryRun),
+      {
+        method: 'POST',
+        headers: getMutationHeaders(),
+        body: JSON.stringify({ dye: dyeInput(dye), localeNames }),
+      },
+      30000 // 30s timeout for file write operations
+    )
+    const result: WriteResult & Partial<DyeRecord> = await response.json()
+
+    if (!result.success) {
+      return { success: false, errors: [result.error || 'Failed to add dye'] }
+    }
+    return {
+      success: true,
+      errors: [],
+      files: result.files,
+      record: writtenRecord(result),
+      etag: response.headers.get('ETag') ?? undefined,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, errors: [message] }
+  }
+}
+
+/**
+ * Add many dyes in one transaction
+ *
+ * The server validates every record against DyeSchema (deriving rgb/hsv from
+ * the hex) and reports errors per row; nothing is written unless all rows are
+ * valid. With `dryRun` the rows are only validated and the result lists the
+ * file diffs.
+ */
+export async function importDyes(records: DyeRecord[], dryRun = false): Promise<ImportResult> {
+  const response = await fetchWithTimeout(
+    withDryRun(`${SERVER_BASE}/dyes/import`, dryRun),
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+      body: JSON.stringify({ records }),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
 
-    // 2. Add new dye
-    dyes.push(dye)
+/**
+ * Change some fields or locale names of an existing dye
+ *
+ * Only the changes are sent; the server merges them into the current entry
+ * (re-deriving rgb/hsv if the hex changed) and returns the merged record.
+ *
+ * @param etag - ETag from readDyeRecord (409 with the current version if the
+ *   dye changed since)
+ */
+export async function updateDyeInDatabase(
+  itemId: number,
+  changes: DyePatch,
+  etag: string,
+  dryRun = false
+): Promise<DyeWriteResult> {
+  try {
+    const response = await fetchWithTimeout(
+      withDryRun(`${SERVER_BASE}/dyes/${itemId}`, dryRun),
+      {
+        method: 'PATCH',
+        headers: getMutationHeaders(etag),
+        body: JSON.stringify(changes),
+      },
+      30000 // 30s timeout for file write operations
+    )
+    const result: WriteResult & Partial<DyeRecord> = await response.json()
 
-    // 3. Write updated colors
-    const colorsResult = await writeColorsJson(dyes)
-    if (!colorsResult.success) {
-      errors.push(colorsResult.error || 'Failed to write colors file')
-      return { success: false, errors }
+    if (!result.success) {
+      return {
+        success: false,
+        errors: [result.error || 'Failed to update dye'],
+        conflict: result.conflict,
+      }
     }
+    return {
+      success: true,
+      errors: [],
+      files: result.files,
+      record: writtenRecord(result),
+      etag: response.headers.get('ETag') ?? undefined,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, errors: [message] }
+  }
+}
 
-    // 4. Update each locale file
-    const locales: LocaleCode[] = ['en', 'ja', 'de', 'fr', 'ko', 'zh']
-    for (const locale of locales) {
-      try {
-        const localeData = await readLocaleJson(locale)
-
-        // Add dye name
-        if (dye.itemID !== null) {
-          localeData.dyeNames[String(dye.itemID)] = localeNames[locale] || ''
-        }
-
-        // Update meta
-        localeData.meta.dyeCount = Object.keys(localeData.dyeNames).length
-        localeData.meta.generated = new Date().toISOString()
-
-        // Write updated locale
-        const localeResult = await writeLocaleJson(locale, localeData)
-        if (!localeResult.success) {
-          errors.push(`Failed to update ${locale} locale: ${localeResult.error}`)
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error'
-        errors.push(`Failed to update ${locale} locale: ${message}`)
+/**
+ * Permanently remove a dye from colors_xiv.json and all locale files
+ *
+ * @param etag - ETag from readDyeRecord (409 with the current version if the
+ *   dye changed since)
+ */
+export async function deleteDyeFromDatabase(
+  itemId: number,
+  etag: string,
+  dryRun = false
+): Promise<DyeWriteResult> {
+  try {
+    const response = await fetchWithTimeout(
+      withDryRun(`${SERVER_BASE}/dyes/${itemId}`, dryRun),
+      {
+        method: 'DELETE',
+        headers: getMutationHeaders(etag),
+      },
+      30000 // 30s timeout for file write operations
+    )
+    const result: WriteResult = await response.json()
+
+    if (!result.success) {
+      return {
+        success: false,
+        errors: [result.error || 'Failed to delete dye'],
+        conflict: result.conflict,
       }
     }
+    return {
+      success: true,
+      errors: [],
+      files: result.files,
+      etag: response.headers.get('ETag') ?? undefined,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, errors: [message] }
+  }
+}
 
-    return { success: errors.length === 0, errors }
+/**
+ * Mark a dye as deprecated (retired from the game) or restore it
+ *
+ * @param etag - ETag from readDyeRecord (409 with the current version if the
+ *   dye changed since)
+ */
+export async function setDyeDeprecated(
+  itemId: number,
+  deprecated: boolean,
+  etag: string,
+  dryRun = false
+): Promise<DyeWriteResult> {
+  try {
+    const response = await fetchWithTimeout(
+      withDryRun(`${SERVER_BASE}/dyes/${itemId}/deprecate`, dryRun),
+      {
+        method: 'POST',
+        headers: getMutationHeaders(etag),
+        body: JSON.stringify({ deprecated }),
+      },
+      30000 // 30s timeout for file write operations
+    )
+    const result: WriteResult = await response.json()
+
+    if (!result.success) {
+      return {
+        success: false,
+        errors: [result.error || 'Failed to update dye'],
+        conflict: result.conflict,
+      }
+    }
+    return {
+      success: true,
+      errors: [],
+      files: result.files,
+      etag: response.headers.get('ETag') ?? undefined,
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
-    errors.push(message)
-    return { success: false, errors }
+    return { success: false, errors: [message] }
   }
 }
@@ -0,0 +1,46 @@
+/**
+ * Git Service - API client for committing data file changes in the core checkout
+ */
+
+import type { GitCommitResult, GitStatus } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE, getMutationHeaders } from './fileService'
+
+/**
+ * Get the branch, changed data files and a suggested commit message
+ */
+export async function getGitStatus(): Promise<GitStatus> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/git/status`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to read git status')
+  }
+  return response.json()
+}
+
+/**
+ * Get the unified diff of uncommitted data file changes
+ */
+export async function getGitDiff(): Promise<string> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/git/diff`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to read git diff')
+  }
+  const data = await response.json()
+  return data.diff
+}
+
+/**
+ * Commit the data files locally, optionally on a new branch (never pushes)
+ */
+export async function commitDataFiles(message: string, branch?: string): Promise<GitCommitResult> {
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/git/commit`,
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+      body: JSON.stringify({ message, branch: branch || undefined }),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
@@ -0,0 +1,48 @@
+/**
+ * History Service - API client for undo/redo of maintainer operations
+ */
+
+import type { HistoryState, WriteResult } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE, getMutationHeaders } from './fileService'
+
+/**
+ * Get the operation history (newest first) and undo/redo availability
+ */
+export async function getHistory(): Promise<HistoryState> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/history`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to read history')
+  }
+  return response.json()
+}
+
+/**
+ * Undo the most recent operation
+ */
+export async function undoLastOperation(): Promise<WriteResult & { operation?: string }> {
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/history/undo`,
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
+
+/**
+ * Redo the most recently undone operation
+ */
+export async function redoLastOperation(): Promise<WriteResult & { operation?: string }> {
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/history/redo`,
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
@@ -0,0 +1,55 @@
+/**
+ * Integrity Service - API client for the whole-database integrity checker
+ */
+
+import type { FormatResult, IntegrityIssueCode, IntegrityReport, WriteResult } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE, getMutationHeaders, withDryRun } from './fileService'
+
+/**
+ * Check colors_xiv.json and all locale files for consistency
+ */
+export async function getIntegrityReport(): Promise<IntegrityReport> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/integrity`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to check integrity')
+  }
+  return response.json()
+}
+
+/**
+ * Repair every issue of one fixable kind
+ * (with `dryRun`, only return the diffs the fix would make)
+ */
+export async function applyIntegrityFix(
+  code: IntegrityIssueCode,
+  dryRun = false
+): Promise<WriteResult> {
+  const response = await fetchWithTimeout(
+    withDryRun(`${SERVER_BASE}/integrity/fix`, dryRun),
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+      body: JSON.stringify({ code }),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
+
+/**
+ * Rewrite the data files in canonical form (key order, sort order, hex case,
+ * HSV precision) without changing any data
+ * (with `dryRun`, only return the diffs it would make)
+ */
+export async function formatDataFiles(dryRun = false): Promise<FormatResult> {
+  const response = await fetchWithTimeout(
+    withDryRun(`${SERVER_BASE}/format`, dryRun),
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
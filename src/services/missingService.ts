@@ -0,0 +1,35 @@
+/**
+ * Missing Dye Service - API client for the "what's missing" scan
+ */
+
+import type { MissingDyeScan, MissingDyeSource } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE } from './fileService'
+
+/**
+ * List the dye items in the game that colors_xiv.json does not have
+ *
+ * @param source - List dye items from XIVAPI or from the local Item sheet dumps
+ * @param refresh - Fetch the XIVAPI dye list again instead of using the cached one
+ * @throws Error with the server's message if the source cannot be read
+ */
+export async function scanMissingDyes(
+  source: MissingDyeSource,
+  refresh = false
+): Promise<MissingDyeScan> {
+  const params = new URLSearchParams({ source })
+  if (refresh) {
+    params.set('refresh', 'true')
+  }
+
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/missing?${params}`,
+    {},
+    30000 // 30s timeout: the server may page through XIVAPI
+  )
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `Scan failed: HTTP ${response.status}`)
+  }
+  return response.json()
+}
@@ -0,0 +1,50 @@
+/**
+ * Name Dump Service - API client for the local Korean and Chinese item name dumps
+ */
+
+import type { LocaleCode, NameDumpStatus } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE, getMutationHeaders } from './fileService'
+
+/**
+ * List the dump locales with their import state
+ */
+export async function getNameDumpStatus(): Promise<NameDumpStatus[]> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/names`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to read name dumps')
+  }
+  const data: { sources: NameDumpStatus[] } = await response.json()
+  return data.sources
+}
+
+/**
+ * Re-import every dump into the server's index
+ */
+export async function importNameDumps(): Promise<NameDumpStatus[]> {
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/names/import`,
+    {
+      method: 'POST',
+      headers: getMutationHeaders(),
+    },
+    30000 // 30s timeout for parsing large dumps
+  )
+  if (!response.ok) {
+    throw new Error('Failed to import name dumps')
+  }
+  const data: { sources: NameDumpStatus[] } = await response.json()
+  return data.sources
+}
+
+/**
+ * Look up an item's names in the dumps (dye prefix not stripped)
+ */
+export async function fetchDumpNames(itemId: number): Promise<Partial<Record<LocaleCode, string>>> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/names/${itemId}`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to read name dumps')
+  }
+  const data: { names: Partial<Record<LocaleCode, string>> } = await response.json()
+  return data.names
+}
@@ -0,0 +1,136 @@
+/**
+ * Name Providers - Sources of localized item names for auto-filling dye names
+ *
+ * Each provider covers some locales; providers are asked in order and each
+ * locale is taken from the first provider that has it. The dye prefix
+ * ("Dye:", "カララント:", ...) is stripped from every name the same way.
+ *
+ * - XIVAPI: en/ja/de/fr
+ * - Local dumps: ko/zh, from Item sheet CSVs placed in name-dumps/ on the server
+ */
+
+import type { LocaleCode } from '@/types'
+import { fetchXivapiNames, stripDyePrefix, SUPPORTED_LANGUAGES } from './xivapiService'
+import { fetchDumpNames, getNameDumpStatus } from './nameDumpService'
+
+export interface NameProvider {
+  /** Shown in error messages */
+  label: string
+  /** Locales the provider can currently supply */
+  availableLocales(): Promise<LocaleCode[]>
+  /** Look up an item's names as the game writes them (dye prefix included) */
+  fetchNames(
+    itemId: number,
+    locales: LocaleCode[]
+  ): Promise<{ names: Partial<Record<LocaleCode, string>>; errors: string[] }>
+}
+
+export interface FetchedNames {
+  names: Partial<Record<LocaleCode, string>>
+  autoFilled: LocaleCode[]
+  errors: string[]
+}
+
+const xivapiProvider: NameProvider = {
+  label: 'XIVAPI',
+  availableLocales: async () => SUPPORTED_LANGUAGES,
+  fetchNames: fetchXivapiNames,
+}
+
+const localDumpProvider: NameProvider = {
+  label: 'Local dump',
+  async availableLocales() {
+    const sources = await getNameDumpStatus()
+    return sources.filter((source) => source.available).map((source) => source.locale)
+  },
+  async fetchNames(itemId, locales) {
+    const found = await fetchDumpNames(itemId)
+    const names: Partial<Record<LocaleCode, string>> = {}
+    const errors: string[] = []
+    for (const locale of locales) {
+      if (found[locale]) {
+        names[locale] = found[locale]
+      } else {
+        errors.push(`No data found for ${locale}`)
+      }
+    }
+    return { names, errors }
+  },
+}
+
+/**
+ * Providers in the order they are asked
+ */
+export const NAME_PROVIDERS: NameProvider[] = [xivapiProvider, localDumpProvider]
+
+/**
+ * Locales any provider can currently fill in
+ * (a provider that cannot be reached contributes none)
+ */
+export async function getAutoFillLocales(): Promise<LocaleCode[]> {
+  const locales = new Set<LocaleCode>()
+  for (const provider of NAME_PROVIDERS) {
+    try {
+      for (const locale of await provider.availableLocales()) {
+        locales.add(locale)
+      }
+    } catch {
+      // Provider unavailable (e.g. server offline)
+    }
+  }
+  return [...locales]
+}
+
+/**
+ * Strip each locale's dye prefix from names as the game writes them
+ *
+ * @param names - Name per locale
+ * @param dyePrefixes - Each locale's "Dye" label (see getLocaleLabels)
+ */
+export function stripDyePrefixes(
+  names: Partial<Record<LocaleCode, string>>,
+  dyePrefixes: Record<string, string>
+): Partial<Record<LocaleCode, string>> {
+  const stripped: Partial<Record<LocaleCode, string>> = {}
+  for (const [locale, name] of Object.entries(names) as Array<[LocaleCode, string]>) {
+    const prefix = dyePrefixes[locale]
+    stripped[locale] = prefix && name ? stripDyePrefix(name, prefix) : name
+  }
+  return stripped
+}
+
+/**
+ * Fetch item names from every provider, with the dye prefix stripped
+ *
+ * @param itemId - Item ID to look up
+ * @param dyePrefixes - Each locale's "Dye" label (see getLocaleLabels)
+ */
+export async function fetchItemNames(
+  itemId: number,
+  dyePrefixes: Record<string, string>
+): Promise<FetchedNames> {
+  const result: FetchedNames = {
+    names: {},
+    autoFilled: [],
+    errors: [],
+  }
+
+  for (const provider of NAME_PROVIDERS) {
+    try {
+      const locales = (await provider.availableLocales()).filter(
+        (locale) => !result.autoFilled.includes(locale)
+      )
+      if (locales.length === 0) continue
+
+      const { names, errors } = await provider.fetchNames(itemId, locales)
+      Object.assign(result.names, stripDyePrefixes(names, dyePrefixes))
+      result.autoFilled.push(...(Object.keys(names) as LocaleCode[]))
+      result.errors.push(...errors)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      result.errors.push(`${provider.label}: ${message}`)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,35 @@
+/**
+ * Target Service - API client for switching between xivdyetools-core copies
+ */
+
+import type { CoreTarget, WriteResult } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE, getMutationHeaders } from './fileService'
+
+/**
+ * List configured core targets (the active one is flagged)
+ */
+export async function listTargets(): Promise<CoreTarget[]> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/targets`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to list core targets')
+  }
+  const data = await response.json()
+  return data.targets
+}
+
+/**
+ * Make a core target active; all reads and writes go to it afterwards
+ */
+export async function switchTarget(name: string): Promise<WriteResult> {
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/targets/active`,
+    {
+      method: 'PUT',
+      headers: getMutationHeaders(),
+      body: JSON.stringify({ name }),
+    },
+    15000
+  )
+  return response.json()
+}
@@ -0,0 +1,81 @@
+/**
+ * Vocabulary Service - API client for the categories, acquisitions and
+ * currencies a dye may use
+ */
+
+import type { LocaleCode, Versioned, Vocabulary, VocabularyKind, WriteResult } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE, getMutationHeaders, responseEtag, withDryRun } from './fileService'
+
+function termUrl(kind: VocabularyKind, key: string): string {
+  return `${SERVER_BASE}/vocabulary/${kind}/${encodeURIComponent(key)}`
+}
+
+/**
+ * Read the vocabulary of the active target with its ETag
+ *
+ * The ETag identifies this version of the labels; adding, relabeling or
+ * removing a term requires it so changes made elsewhere are not overwritten.
+ */
+export async function readVocabulary(): Promise<Versioned<Vocabulary>> {
+  const response = await fetchWithTimeout(`${SERVER_BASE}/vocabulary`, {}, 15000)
+  if (!response.ok) {
+    throw new Error('Failed to read vocabulary')
+  }
+  return { data: await response.json(), etag: responseEtag(response) }
+}
+
+/**
+ * Read the vocabulary of the active target
+ */
+export async function getVocabulary(): Promise<Vocabulary> {
+  return (await readVocabulary()).data
+}
+
+/**
+ * Add a category/acquisition or change its labels in every locale file
+ * (with `dryRun`, only return the diffs it would make)
+ *
+ * @param etag - ETag from readVocabulary (409 if the vocabulary changed since)
+ */
+export async function saveVocabularyTerm(
+  kind: VocabularyKind,
+  key: string,
+  labels: Partial<Record<LocaleCode, string>>,
+  etag: string,
+  dryRun = false
+): Promise<WriteResult> {
+  const response = await fetchWithTimeout(
+    withDryRun(termUrl(kind, key), dryRun),
+    {
+      method: 'PUT',
+      headers: getMutationHeaders(etag),
+      body: JSON.stringify({ labels }),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
+
+/**
+ * Remove an unused category/acquisition from every locale file
+ * (with `dryRun`, only return the diffs it would make)
+ *
+ * @param etag - ETag from readVocabulary (409 if the vocabulary changed since)
+ */
+export async function deleteVocabularyTerm(
+  kind: VocabularyKind,
+  key: string,
+  etag: string,
+  dryRun = false
+): Promise<WriteResult> {
+  const response = await fetchWithTimeout(
+    withDryRun(termUrl(kind, key), dryRun),
+    {
+      method: 'DELETE',
+      headers: getMutationHeaders(etag),
+    },
+    30000 // 30s timeout for file write operations
+  )
+  return response.json()
+}
@@ -1,89 +1,76 @@
 /**
- * XIVAPI Service - Fetch item data from XIVAPI
+ * XIVAPI Service - Fetch item data from XIVAPI through the server's cache
  */
 
-import type { XivapiItemResponse, LocaleCode } from '@/types'
+import type { DyeItemSearchResponse, LocaleCode, XivapiNamesResponse } from '@/types'
+import { fetchWithTimeout } from '@/utils/fetchWithTimeout'
+import { SERVER_BASE } from './fileService'
 
-const XIVAPI_BASE = 'https://v2.xivapi.com/api'
 const SUPPORTED_LANGUAGES: LocaleCode[] = ['en', 'ja', 'de', 'fr']
 
-export interface FetchedNames {
-  names: Partial<Record<LocaleCode, string>>
-  autoFilled: LocaleCode[]
-  errors: string[]
-}
-
 /**
- * Fetch item names from XIVAPI for all supported languages
+ * Fetch item names from XIVAPI
+ *
+ * The server answers from its on-disk cache when it can and retries XIVAPI
+ * otherwise (or serves only cached names in offline mode). Names are returned
+ * as the game writes them (dye prefix included); see nameProviders.ts for
+ * prefix stripping.
  */
-export async function fetchItemNames(
+export async function fetchXivapiNames(
   itemId: number,
-  dyePrefixes: Record<string, string>
-): Promise<FetchedNames> {
-  const result: FetchedNames = {
-    names: {},
-    autoFilled: [],
-    errors: [],
+  languages: LocaleCode[] = SUPPORTED_LANGUAGES
+): Promise<{ names: Partial<Record<LocaleCode, string>>; errors: string[] }> {
+  const supported = languages.filter(isXivapiSupported)
+  if (supported.length === 0) {
+    return { names: {}, errors: [] }
   }
 
-  for (const lang of SUPPORTED_LANGUAGES) {
-    try {
-      const response = await fetch(
-        `${XIVAPI_BASE}/sheet/Item?rows=${itemId}&language=${lang}`
-      )
-
-      if (!response.ok) {
-        result.errors.push(`Failed to fetch ${lang}: HTTP ${response.status}`)
-        continue
-      }
-
-      const data: XivapiItemResponse = await response.json()
-
-      if (data.rows && data.rows.length > 0) {
-        let name = data.rows[0].fields.Name
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/xivapi/${itemId}?languages=${supported.join(',')}`,
+    {},
+    30000 // 30s timeout: the server retries XIVAPI with backoff
+  )
+  if (!response.ok) {
+    throw new Error(`Failed to fetch names: HTTP ${response.status}`)
+  }
 
-        // Strip dye prefix if present
-        const prefix = dyePrefixes[lang]
-        if (prefix && name) {
-          name = stripDyePrefix(name, prefix)
-        }
+  const data: XivapiNamesResponse = await response.json()
+  return { names: data.names, errors: data.errors }
+}
 
-        result.names[lang] = name
-        result.autoFilled.push(lang)
-      } else {
-        result.errors.push(`No data found for ${lang}`)
-      }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error'
-      result.errors.push(`Failed to fetch ${lang}: ${message}`)
-    }
+/**
+ * Search dye items whose name contains the query in any XIVAPI language
+ *
+ * @param query - Part of a name (at least 2 characters)
+ * @throws Error with the server's message if XIVAPI cannot be reached and the
+ *   search is not cached
+ */
+export async function searchDyeItems(query: string): Promise<DyeItemSearchResponse> {
+  const response = await fetchWithTimeout(
+    `${SERVER_BASE}/xivapi/search?q=${encodeURIComponent(query)}`,
+    {},
+    30000 // 30s timeout: the server retries XIVAPI with backoff
+  )
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `Search failed: HTTP ${response.status}`)
   }
-
-  return result
+  return response.json()
 }
 
 /**
  * Strip dye prefix from name
- * e.g., "カララント:スートブラック" -> "スートブラック"
+ * e.g., "カララント:スートブラック" -> "スートブラック", "染剂：无瑕白" -> "无瑕白"
  */
 export function stripDyePrefix(name: string, prefix: string): string {
   if (!name || !prefix) return name
 
-  // Handle colon variations (full-width and half-width)
-  const prefixWithColon = prefix.endsWith(':') || prefix.endsWith(':')
-    ? prefix
-    : prefix
-
-  // Check if name starts with prefix
-  if (name.startsWith(prefixWithColon)) {
-    return name.slice(prefixWithColon.length).trim()
-  }
-
-  // Also try with adding colon
+  // Try the prefix followed by a colon (half-width or full-width) before the
+  // bare prefix, so the colon is not left on the name
   const prefixVariants = [
-    prefix,
     `${prefix}:`,
-    `${prefix}:`, // full-width colon
+    `${prefix}\uFF1A`, // full-width colon
+    prefix,
   ]
 
   for (const variant of prefixVariants) {
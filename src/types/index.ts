@@ -28,6 +28,7 @@ export interface DyeFormState {
   isPastel: boolean
   isDark: boolean
   isCosmic: boolean
+  deprecated: boolean
   locales: Record<LocaleCode, string>
 }
 
@@ -45,8 +46,35 @@ export interface Dye {
   isPastel: boolean
   isDark: boolean
   isCosmic: boolean
+  deprecated?: boolean
 }
 
+/**
+ * The fields of a dye a client sends; the server derives rgb/hsv from hex
+ */
+export type DyeInput = Omit<Dye, 'rgb' | 'hsv'>
+
+/**
+ * Partial update of a dye (PATCH /api/dyes/:itemId); omitted fields are kept
+ */
+export interface DyePatch {
+  dye?: Partial<Omit<DyeInput, 'itemID'>>
+  localeNames?: Partial<Record<LocaleCode, string>>
+}
+
+/**
+ * A dye together with its name in every locale file
+ */
+export interface DyeRecord {
+  dye: Dye
+  localeNames: Record<LocaleCode, string>
+}
+
+/**
+ * Library operations reported back to the app shell after a successful write
+ */
+export type DyeAction = 'added' | 'updated' | 'deleted' | 'deprecated' | 'restored'
+
 export interface LocaleMeta {
   version: string
   generated: string
@@ -82,24 +110,325 @@ export interface ValidationError {
   message: string
 }
 
+export interface FileDiff {
+  /** Name relative to src/data (e.g. "locales/en.json") */
+  name: string
+  /** Unified diff of the current and new contents */
+  diff: string
+  additions: number
+  deletions: number
+}
+
+/**
+ * Content read from the server with its ETag (sent back as If-Match on writes)
+ */
+export interface Versioned<T> {
+  data: T
+  etag: string
+}
+
+/**
+ * 409 details when content changed since it was read
+ */
+export interface WriteConflict {
+  /** ETag of the content now on disk */
+  etag: string
+  /** Current version of the dye (dye writes only) */
+  current?: DyeRecord
+  /** What writing anyway would change */
+  files: FileDiff[]
+}
+
 export interface WriteResult {
   success: boolean
   error?: string
+  /** Files the write would change (dry runs only) */
+  files?: FileDiff[]
+  conflict?: WriteConflict
 }
 
-export interface XivapiItemResponse {
-  schema: string
-  version: string
-  rows: Array<{
-    row_id: number
-    fields: {
-      Icon?: {
-        id: number
-        path: string
-        path_hr1?: string
-      }
-      Name: string
-      Singular?: string
+/**
+ * Result of a single-dye write
+ */
+export interface DyeWriteResult {
+  success: boolean
+  errors: string[]
+  /** Files the write would change (dry runs only) */
+  files?: FileDiff[]
+  conflict?: WriteConflict
+  /** The dye as written (adds and updates) */
+  record?: DyeRecord
+  /** ETag of the dye after a successful write */
+  etag?: string
+}
+
+export interface ImportRowResult {
+  /** Index of the record in the submitted batch */
+  index: number
+  errors: string[]
+}
+
+export interface ImportResult extends WriteResult {
+  rows?: ImportRowResult[]
+}
+
+export interface BackupFile {
+  name: string
+  size: number
+  dyeCount: number
+}
+
+export interface BackupSummary {
+  id: string
+  createdAt: string
+  reason: string
+  requestId?: string
+  files: BackupFile[]
+}
+
+export interface HistoryEntry {
+  id: string
+  timestamp: string
+  operation: string
+  itemIds: number[]
+  files: string[]
+  undone: boolean
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]
+  canUndo: boolean
+  canRedo: boolean
+}
+
+export interface CoreTarget {
+  name: string
+  label?: string
+  active: boolean
+}
+
+export type IntegrityIssueCode =
+  | 'duplicate-item-id'
+  | 'duplicate-hex'
+  | 'color-mismatch'
+  | 'missing-locale-name'
+  | 'orphan-locale-name'
+  | 'dye-count-mismatch'
+  | 'metallic-mismatch'
+  | 'unknown-category'
+  | 'unknown-acquisition'
+
+export interface IntegrityIssue {
+  code: IntegrityIssueCode
+  severity: 'error' | 'warning'
+  message: string
+  itemIds: number[]
+  locale?: LocaleCode
+  fixable: boolean
+}
+
+export interface FormatResult extends WriteResult {
+  /** Files that were rewritten (names relative to src/data) */
+  formatted?: string[]
+}
+
+export interface IntegrityReport {
+  dyeCount: number
+  errorCount: number
+  warningCount: number
+  issues: IntegrityIssue[]
+}
+
+export interface GitFileStatus {
+  /** Path relative to src/data (e.g. "locales/en.json") */
+  name: string
+  /** Two-letter porcelain status (e.g. " M") */
+  status: string
+}
+
+export interface DyeChangeSummary {
+  added: Array<{ itemID: number; name: string }>
+  updated: Array<{ itemID: number; name: string }>
+  removed: Array<{ itemID: number; name: string }>
+}
+
+export type GitStatus =
+  | { isRepo: false }
+  | {
+      isRepo: true
+      branch: string
+      files: GitFileStatus[]
+      summary: DyeChangeSummary
+      /** Suggested commit message */
+      message: string
     }
-  }>
+
+export interface GitCommitResult extends WriteResult {
+  commit?: string
+  branch?: string
+}
+
+/**
+ * Data files that changed on disk (pushed over GET /api/events)
+ */
+export interface DataChangeEvent {
+  /** Core target the files belong to */
+  target: string
+  /** Changed files, relative to the data directory (e.g. "locales/en.json") */
+  files: string[]
+  /** "maintainer" for writes made through the tool, "external" for anything else */
+  source: 'maintainer' | 'external'
+  timestamp: string
+}
+
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'AUDIT'
+
+/**
+ * What one operation changed in one data file
+ */
+export interface AuditFileChange {
+  file: string
+  dyeCount: { before: number; after: number }
+  added: number[]
+  removed: number[]
+  /** Changed dyes with the old and new value of each changed field ("name" for locale files) */
+  updated: Array<{ itemID: number; fields: Record<string, { before: unknown; after: unknown }> }>
+}
+
+/**
+ * Entry of the persisted audit log (GET /api/audit)
+ *
+ * Mutation entries carry `operation`, `itemIds` and `files`; other entries
+ * (failed requests, errors) only the context they were logged with.
+ */
+export interface AuditEntry {
+  timestamp: string
+  level: LogLevel
+  message: string
+  requestId?: string
+  sessionId?: string
+  method?: string
+  path?: string
+  statusCode?: number
+  error?: string
+  operation?: string
+  itemIds?: number[]
+  files?: AuditFileChange[]
+  [key: string]: unknown
+}
+
+export interface AuditFilter {
+  /** ISO 8601 timestamps (inclusive) */
+  from?: string
+  to?: string
+  level?: LogLevel
+  itemId?: number
+  limit?: number
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[]
+  /** Number of matching entries (entries holds at most `limit`) */
+  total: number
+}
+
+export type VocabularyKind = 'categories' | 'acquisitions'
+
+/**
+ * A category or acquisition with its label in each locale
+ */
+export interface VocabularyTerm {
+  key: string
+  /** Label per locale (locales without one are omitted) */
+  labels: Partial<Record<LocaleCode, string>>
+  /** Number of dyes using the term */
+  dyeCount: number
+}
+
+/**
+ * Values a dye's category, acquisition and currency may take (GET /api/vocabulary)
+ */
+export interface Vocabulary {
+  categories: VocabularyTerm[]
+  acquisitions: VocabularyTerm[]
+  currencies: string[]
+  /** Acquisitions that have a price, with the currency preselected for each */
+  pricedAcquisitions: Record<string, string>
+}
+
+/**
+ * Import state of a local item name dump (GET /api/names)
+ */
+export interface NameDumpStatus {
+  locale: LocaleCode
+  /** Dump location under name-dumps/ (e.g. "ko/Item.csv") */
+  fileName: string
+  available: boolean
+  itemCount: number
+  importedAt: string | null
+  error?: string
+}
+
+/**
+ * An item's names from the server's XIVAPI cache (GET /api/xivapi/:itemId)
+ */
+export interface XivapiNamesResponse {
+  itemId: number
+  /** Name per language, dye prefix included */
+  names: Partial<Record<LocaleCode, string>>
+  /** Where each name came from: fetched now, cached, or expired but XIVAPI unreachable */
+  sources: Partial<Record<LocaleCode, 'network' | 'cache' | 'stale'>>
+  errors: string[]
+  /** The server only serves cached names */
+  offline: boolean
+}
+
+/**
+ * A dye item found by name (GET /api/xivapi/search)
+ */
+export interface DyeItemCandidate {
+  itemId: number
+  /** Name per XIVAPI language, dye prefix included */
+  names: Partial<Record<LocaleCode, string>>
+  iconUrl: string | null
+  /** Already in colors_xiv.json */
+  exists: boolean
+}
+
+export interface DyeItemSearchResponse {
+  query: string
+  results: DyeItemCandidate[]
+  /** Fetched now, cached, or expired but XIVAPI unreachable */
+  source: 'network' | 'cache' | 'stale'
+  offline: boolean
+}
+
+/**
+ * Where the "what's missing" scan lists dye items from
+ */
+export type MissingDyeSource = 'xivapi' | 'dumps'
+
+/**
+ * A dye item not yet in colors_xiv.json (GET /api/missing)
+ */
+export interface MissingDye {
+  itemId: number
+  /** Name per locale, dye prefix included */
+  names: Partial<Record<LocaleCode, string>>
+  iconUrl: string | null
+  /** Names that could not be fetched */
+  errors: string[]
+}
+
+export interface MissingDyeScan {
+  source: MissingDyeSource
+  /** When the list of dye items was read */
+  listedAt: string
+  /** Where the XIVAPI list was answered from (xivapi source only) */
+  listSource?: 'network' | 'cache' | 'stale'
+  /** Dye items found in the source */
+  dyeItemCount: number
+  /** Newest (highest item ID) first */
+  missing: MissingDye[]
+  offline: boolean
 }
@@ -2,39 +2,6 @@
  * Constants for the Dye Maintainer app
  */
 
-export const CATEGORIES = [
-  'Neutral',
-  'Reds',
-  'Browns',
-  'Yellows',
-  'Greens',
-  'Blues',
-  'Purples',
-  'Special',
-  'Facewear',
-] as const
-
-export type Category = (typeof CATEGORIES)[number]
-
-export const ACQUISITIONS = [
-  'Dye Vendor',
-  'Ixali Vendor',
-  'Crafting',
-  'Achievement',
-  'Retainer Venture',
-  'Cosmic Exploration',
-  'Cosmic Fortunes',
-  'Event',
-  'Mogstation',
-  'Unknown',
-] as const
-
-export type Acquisition = (typeof ACQUISITIONS)[number]
-
-export const CURRENCIES = ['Gil', 'Cosmocredits'] as const
-
-export type Currency = (typeof CURRENCIES)[number]
-
 export const LOCALES = [
   { code: 'en', name: 'English', flag: '🇬🇧' },
   { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
@@ -44,8 +11,6 @@ export const LOCALES = [
   { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
 ] as const
 
-export const XIVAPI_SUPPORTED_LOCALES = ['en', 'ja', 'de', 'fr'] as const
-
 /**
  * Default form values
  */
@@ -61,6 +26,7 @@ export const DEFAULT_FORM_STATE = {
   isPastel: false,
   isDark: false,
   isCosmic: false,
+  deprecated: false,
   locales: {
     en: '',
     ja: '',
@@ -72,18 +38,8 @@ export const DEFAULT_FORM_STATE = {
 } as const
 
 /**
- * Acquisitions that typically have a price
- */
-export const PRICED_ACQUISITIONS = [
-  'Dye Vendor',
-  'Ixali Vendor',
-  'Mogstation',
-]
-
-/**
- * Acquisitions that use Cosmocredits
+ * Default perceptual distance (OKLab ΔE × 100, see colorDistance) below which
+ * an existing dye's color is reported as a near-duplicate (~2, one
+ * just-noticeable difference, is barely distinguishable)
  */
-export const COSMOCREDIT_ACQUISITIONS = [
-  'Cosmic Exploration',
-  'Cosmic Fortunes',
-]
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 3
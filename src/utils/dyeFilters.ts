@@ -0,0 +1,98 @@
+/**
+ * Filtering and sorting for the dye database browser
+ */
+
+import type { DyeRecord } from '@/types'
+
+export type DyeFlag = 'isMetallic' | 'isPastel' | 'isDark' | 'isCosmic'
+
+export interface DyeFilters {
+  /** Substring matched against the dye's name in any locale (case-insensitive) */
+  search: string
+  /** Category to match ('' = any) */
+  category: string
+  /** Acquisition method to match ('' = any) */
+  acquisition: string
+  /** Flags the dye must have */
+  flags: DyeFlag[]
+  /** Inclusive hex range ('' = unbounded), compared as 24-bit values */
+  hexFrom: string
+  hexTo: string
+  /** Include dyes marked as deprecated */
+  showDeprecated: boolean
+}
+
+export type DyeSortKey = 'itemID' | 'name' | 'category' | 'acquisition' | 'hex' | 'price'
+
+export const DEFAULT_DYE_FILTERS: DyeFilters = {
+  search: '',
+  category: '',
+  acquisition: '',
+  flags: [],
+  hexFrom: '',
+  hexTo: '',
+  showDeprecated: true,
+}
+
+/**
+ * Convert a hex color to its 24-bit value
+ *
+ * @returns The value, or null for anything that isn't a 6-digit hex color
+ */
+function hexValue(hex: string): number | null {
+  const match = /^#?([0-9a-fA-F]{6})$/.exec(hex.trim())
+  return match ? parseInt(match[1], 16) : null
+}
+
+/**
+ * Apply filters to a list of dye records
+ */
+export function filterDyes(records: DyeRecord[], filters: DyeFilters): DyeRecord[] {
+  const search = filters.search.trim().toLowerCase()
+  const hexFrom = hexValue(filters.hexFrom)
+  const hexTo = hexValue(filters.hexTo)
+
+  return records.filter(({ dye, localeNames }) => {
+    if (!filters.showDeprecated && dye.deprecated) return false
+    if (filters.category && dye.category !== filters.category) return false
+    if (filters.acquisition && dye.acquisition !== filters.acquisition) return false
+    if (!filters.flags.every((flag) => dye[flag])) return false
+
+    const value = hexValue(dye.hex)
+    if (hexFrom !== null && (value === null || value < hexFrom)) return false
+    if (hexTo !== null && (value === null || value > hexTo)) return false
+
+    if (search) {
+      const names = [dye.name, ...Object.values(localeNames)]
+      if (!names.some((name) => name.toLowerCase().includes(search))) return false
+    }
+
+    return true
+  })
+}
+
+/**
+ * Sort dye records by a column (returns a new array)
+ */
+export function sortDyes(
+  records: DyeRecord[],
+  key: DyeSortKey,
+  direction: 'asc' | 'desc'
+): DyeRecord[] {
+  const factor = direction === 'asc' ? 1 : -1
+
+  return [...records].sort((a, b) => {
+    const left = a.dye[key]
+    const right = b.dye[key]
+
+    // Nulls (no item ID / no price) always sort last
+    if (left === null && right === null) return 0
+    if (left === null) return 1
+    if (right === null) return -1
+
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * factor
+    }
+    return String(left).localeCompare(String(right)) * factor
+  })
+}
@@ -0,0 +1,254 @@
+/**
+ * Bulk import parsing - turns a CSV or JSON file into form states that can be
+ * validated and built exactly like a dye entered through DyeForm
+ *
+ * Recognized columns / keys (case-insensitive):
+ *   itemID, hex, category, acquisition, price, currency,
+ *   flags ("metallic|pastel|dark|cosmic") or isMetallic/isPastel/isDark/isCosmic,
+ *   deprecated,
+ *   en, ja, de, fr, ko, zh (or "name" for English)
+ *
+ * In JSON, locale names may also be nested under `locales` or `localeNames`.
+ * Categories, acquisitions and currencies are checked against the vocabulary.
+ */
+
+import { DEFAULT_FORM_STATE } from './constants'
+import type { DyeFormState, LocaleCode, Vocabulary } from '@/types'
+
+const LOCALE_CODES: LocaleCode[] = ['en', 'ja', 'de', 'fr', 'ko', 'zh']
+
+const FLAG_KEYS = {
+  metallic: 'isMetallic',
+  pastel: 'isPastel',
+  dark: 'isDark',
+  cosmic: 'isCosmic',
+} as const
+
+/**
+ * A parsed import row
+ */
+export interface ImportRow {
+  /** 1-based row number in the source file (data rows only) */
+  row: number
+  form: DyeFormState
+  /** Problems found while reading the row (bad numbers, unknown values) */
+  errors: string[]
+}
+
+/**
+ * Parse CSV text into records keyed by header
+ *
+ * Supports quoted fields with embedded commas, quotes ("") and newlines.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((value) => value.trim() !== ''))
+  if (nonEmpty.length === 0) return []
+
+  const headers = nonEmpty[0].map((header) => header.trim())
+  return nonEmpty.slice(1).map((values) => {
+    const record: Record<string, string> = {}
+    headers.forEach((header, index) => {
+      record[header] = (values[index] ?? '').trim()
+    })
+    return record
+  })
+}
+
+/**
+ * Look up a key case-insensitively
+ */
+function pick(record: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of Object.keys(record)) {
+    if (keys.includes(key.toLowerCase())) {
+      return record[key]
+    }
+  }
+  return undefined
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === ''
+}
+
+function parseInteger(value: unknown, label: string, errors: string[]): number | null {
+  if (isBlank(value)) return null
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 0) {
+    errors.push(`${label} must be a whole number`)
+    return null
+  }
+  return number
+}
+
+function parseBoolean(value: unknown, label: string, errors: string[]): boolean {
+  if (isBlank(value)) return false
+  if (typeof value === 'boolean') return value
+
+  const text = String(value).trim().toLowerCase()
+  if (['true', 'yes', 'y', '1', 'x'].includes(text)) return true
+  if (['false', 'no', 'n', '0'].includes(text)) return false
+
+  errors.push(`${label} must be true or false`)
+  return false
+}
+
+/**
+ * Convert one CSV/JSON record into form values
+ */
+function toImportRow(record: Record<string, unknown>, row: number, vocabulary: Vocabulary): ImportRow {
+  const errors: string[] = []
+  const form: DyeFormState = {
+    ...DEFAULT_FORM_STATE,
+    locales: { ...DEFAULT_FORM_STATE.locales },
+  }
+
+  form.itemID = parseInteger(pick(record, 'itemid', 'item_id', 'id'), 'Item ID', errors)
+  if (form.itemID === 0) {
+    errors.push('Item ID must be positive')
+    form.itemID = null
+  }
+
+  const hex = String(pick(record, 'hex') ?? '').trim()
+  form.hex = hex.startsWith('#') ? hex : `#${hex}`
+
+  const category = String(pick(record, 'category') ?? '').trim()
+  if (category) {
+    if (!vocabulary.categories.some((term) => term.key === category)) {
+      errors.push(`Unknown category "${category}"`)
+    }
+    form.category = category
+  }
+
+  const acquisition = String(pick(record, 'acquisition') ?? '').trim()
+  if (acquisition) {
+    if (!vocabulary.acquisitions.some((term) => term.key === acquisition)) {
+      errors.push(`Unknown acquisition "${acquisition}"`)
+    }
+    form.acquisition = acquisition
+  }
+
+  // Price and currency follow the same defaults as AcquisitionInput
+  form.price = parseInteger(pick(record, 'price'), 'Price', errors)
+  const currency = pick(record, 'currency')
+  if (!isBlank(currency)) {
+    form.currency = String(currency).trim()
+    if (!vocabulary.currencies.includes(form.currency)) {
+      errors.push(`Unknown currency "${form.currency}"`)
+    }
+  } else {
+    form.currency = vocabulary.pricedAcquisitions[form.acquisition] ?? null
+  }
+
+  // Flags: a combined "flags" column, or one boolean column per flag
+  const flags = pick(record, 'flags')
+  if (!isBlank(flags)) {
+    const names = Array.isArray(flags) ? flags.map(String) : String(flags).split(/[|;\s]+/)
+    for (const name of names.map((n) => n.trim().toLowerCase()).filter(Boolean)) {
+      const key = FLAG_KEYS[name.replace(/^is/, '') as keyof typeof FLAG_KEYS]
+      if (key) {
+        form[key] = true
+      } else {
+        errors.push(`Unknown flag "${name}"`)
+      }
+    }
+  }
+  for (const [name, key] of Object.entries(FLAG_KEYS)) {
+    const value = pick(record, key.toLowerCase())
+    if (!isBlank(value)) {
+      form[key] = parseBoolean(value, name, errors)
+    }
+  }
+  form.deprecated = parseBoolean(pick(record, 'deprecated'), 'deprecated', errors)
+
+  // Locale names (flat columns, or a nested object in JSON)
+  const nested = pick(record, 'locales', 'localenames')
+  const localeSource =
+    nested && typeof nested === 'object' ? (nested as Record<string, unknown>) : record
+  for (const code of LOCALE_CODES) {
+    const value = pick(localeSource, code, `name_${code}`)
+    form.locales[code] = isBlank(value) ? '' : String(value).trim()
+  }
+  const name = pick(record, 'name')
+  if (!form.locales.en && !isBlank(name)) {
+    form.locales.en = String(name).trim()
+  }
+  form.name = form.locales.en
+
+  return { row, form, errors }
+}
+
+/**
+ * Parse an import file
+ *
+ * @param text - File contents
+ * @param fileName - Used to pick the format (.json, anything else is CSV)
+ * @param vocabulary - Allowed categories, acquisitions and currencies
+ * @returns Parsed rows
+ * @throws Error if the file cannot be read as CSV or a JSON array
+ */
+export function parseImportFile(
+  text: string,
+  fileName: string,
+  vocabulary: Vocabulary
+): ImportRow[] {
+  let records: unknown[]
+
+  if (fileName.toLowerCase().endsWith('.json') || text.trimStart().startsWith('[')) {
+    const data = JSON.parse(text)
+    if (!Array.isArray(data)) {
+      throw new Error('JSON import must be an array of dye objects')
+    }
+    records = data
+  } else {
+    records = parseCsv(text)
+  }
+
+  return records.map((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      return {
+        row: index + 1,
+        form: { ...DEFAULT_FORM_STATE, locales: { ...DEFAULT_FORM_STATE.locales } },
+        errors: ['Row is not an object'],
+      }
+    }
+    return toImportRow(record as Record<string, unknown>, index + 1, vocabulary)
+  })
+}
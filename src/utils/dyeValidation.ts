@@ -0,0 +1,73 @@
+/**
+ * Dye form validation - shared by DyeForm and the bulk importer so both apply
+ * the same rules before anything is sent to the server
+ */
+
+import { hexToRgb, hexToHsv, validateHexColor, normalizeHex } from '@/services/colorService'
+import type { Dye, DyeFormState, ValidationError } from '@/types'
+
+/**
+ * Validate form values
+ */
+export function validateDyeForm(form: DyeFormState): ValidationError[] {
+  const errors: ValidationError[] = []
+
+  if (form.itemID === null) {
+    errors.push({ field: 'itemID', message: 'Item ID is required' })
+  }
+
+  const hex = normalizeHex(form.hex)
+  if (!hex || hex === '#') {
+    errors.push({ field: 'hex', message: 'Hex color is required' })
+  } else if (!validateHexColor(hex)) {
+    errors.push({ field: 'hex', message: 'Invalid hex color format' })
+  }
+
+  if (!form.locales.en.trim()) {
+    errors.push({ field: 'locales.en', message: 'English name is required' })
+  }
+
+  if (!form.category) {
+    errors.push({ field: 'category', message: 'Category is required' })
+  }
+
+  if (!form.acquisition) {
+    errors.push({ field: 'acquisition', message: 'Acquisition method is required' })
+  }
+
+  return errors
+}
+
+/**
+ * Build the colors_xiv.json entry for form values (rgb/hsv derived from hex)
+ *
+ * @returns The dye, or null if the hex is invalid
+ */
+export function buildDyeFromForm(form: DyeFormState): Dye | null {
+  const hex = normalizeHex(form.hex)
+  if (!validateHexColor(hex)) return null
+
+  try {
+    const rgb = hexToRgb(hex)
+    const hsv = hexToHsv(hex)
+
+    return {
+      itemID: form.itemID,
+      category: form.category,
+      name: form.locales.en || form.name,
+      hex: hex,
+      acquisition: form.acquisition,
+      price: form.price,
+      currency: form.currency,
+      rgb,
+      hsv,
+      isMetallic: form.isMetallic,
+      isPastel: form.isPastel,
+      isDark: form.isDark,
+      isCosmic: form.isCosmic,
+      ...(form.deprecated ? { deprecated: true } : {}),
+    }
+  } catch {
+    return null
+  }
+}